@@ -0,0 +1,93 @@
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { ANOMALY_THRESHOLDS, Anomaly, describeAnomaly } from '../../utils/anomalies';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+
+interface AnomalyListProps {
+  anomalies: Anomaly[];
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onSelect: (anomaly: Anomaly) => void;
+}
+
+const MAX_VISIBLE_ROWS = 50;
+
+const formatPeriod = (anomaly: Anomaly) =>
+  anomaly.granularity === 'day'
+    ? format(anomaly.start, 'EEE, dd.MM.yyyy', { locale: de })
+    : `KW ${format(anomaly.start, 'I', { locale: de })}: ${format(anomaly.start, 'dd.MM.')}–${format(anomaly.end, 'dd.MM.yyyy')}`;
+
+export function AnomalyList({ anomalies, threshold, onThresholdChange, onSelect }: AnomalyListProps) {
+  const formatValue = (anomaly: Anomaly, value: number) =>
+    anomaly.metric === 'revenue' ? formatCurrency(value) : formatNumber(value);
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Auffälligkeiten</h2>
+          <p className="text-sm text-gray-500">
+            Tage im Vergleich zum selben Wochentag der Vorwochen, Wochen im Vergleich zu den zwölf Vorwochen (robuster z-Wert aus Median und MAD).
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Empfindlichkeit
+          <select
+            value={threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {ANOMALY_THRESHOLDS.map(option => (
+              <option key={option.value} value={option.value}>{option.label} (|z| ≥ {option.value})</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {anomalies.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Keine Auffälligkeiten im gewählten Zeitraum.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-[500px]">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Zeitraum</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Auffälligkeit</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Wert</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Üblich</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">z-Wert</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {anomalies.slice(0, MAX_VISIBLE_ROWS).map(anomaly => (
+                <tr key={anomaly.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatPeriod(anomaly)}</td>
+                  <td className={`px-6 py-2 whitespace-nowrap text-sm font-medium ${anomaly.kind === 'spike' && anomaly.metric !== 'cancellations' ? 'text-green-600' : 'text-red-600'}`}>
+                    {describeAnomaly(anomaly)}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-900">{formatValue(anomaly, anomaly.value)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-500">{formatValue(anomaly, anomaly.expected)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-500">{anomaly.score.toFixed(1)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right">
+                    <button
+                      onClick={() => onSelect(anomaly)}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Buchungen anzeigen
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {anomalies.length > MAX_VISIBLE_ROWS && (
+            <p className="px-6 py-3 text-xs text-gray-500">
+              Die {MAX_VISIBLE_ROWS} jüngsten von {formatNumber(anomalies.length)} Auffälligkeiten werden angezeigt.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { AnonymizationSettings } from '../../types/anonymization';
+import { describeAnonymization } from '../../utils/anonymize';
+
+interface AnonymizationBadgeProps {
+  settings: AnonymizationSettings;
+  isDatasetAnonymized: boolean;
+}
+
+export function AnonymizationBadge({ settings, isDatasetAnonymized }: AnonymizationBadgeProps) {
+  const details = describeAnonymization(settings);
+  if (details.length === 0 && !isDatasetAnonymized) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <div className="inline-flex flex-wrap items-center gap-2 rounded-full bg-amber-100 px-4 py-1 text-sm text-amber-800">
+        <span className="font-semibold">Anonymisierte Daten</span>
+        {details.length > 0 && <span>· {details.join(' · ')}</span>}
+        {isDatasetAnonymized && <span>· beim Import anonymisiert</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { AnonymizationSettings } from '../../types/anonymization';
+
+interface AnonymizationPanelProps {
+  settings: AnonymizationSettings;
+  onChange: (settings: AnonymizationSettings) => void;
+}
+
+type AnonymizationOption = 'truncatePostalCode' | 'hashBookingCode' | 'dropGuestCity' | 'applyOnImport';
+
+const OPTIONS: { key: AnonymizationOption; label: string; description: string }[] = [
+  { key: 'truncatePostalCode', label: 'PLZ kürzen', description: 'Nur die ersten beiden Stellen der Gast-PLZ behalten' },
+  { key: 'hashBookingCode', label: 'Buchungscodes pseudonymisieren', description: 'Buchungscodes durch stabile Pseudonyme ersetzen' },
+  { key: 'dropGuestCity', label: 'Gaststadt entfernen', description: 'Wohnort des Gastes nicht anzeigen oder exportieren' },
+  { key: 'applyOnImport', label: 'Schon beim Import anwenden', description: 'Neue Datensätze nur anonymisiert speichern' },
+];
+
+export function AnonymizationPanel({ settings, onChange }: AnonymizationPanelProps) {
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Anonymisierung</h2>
+        <p className="text-sm text-gray-500">Gilt für Tabellen, Diagramme und alle Exporte</p>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {OPTIONS.map((option) => (
+          <label key={option.key} className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings[option.key]}
+              onChange={(e) => onChange({ ...settings, [option.key]: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              <span className="block font-medium text-gray-900">{option.label}</span>
+              <span className="block text-gray-500">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
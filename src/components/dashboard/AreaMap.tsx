@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BookingData } from '../../types/booking';
+import {
+  AreaFilter,
+  GeoFeatureCollection,
+  MAP_LAYERS,
+  MAP_METRICS,
+  MapLayer,
+  MapMetric,
+  aggregateByArea,
+  getAreaShade,
+  loadBundledGeometry,
+  projectFeatures,
+} from '../../utils/geoMap';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+
+interface AreaMapProps {
+  data: BookingData[];
+  selectedArea: AreaFilter | null;
+  onAreaSelect: (area: AreaFilter | null) => void;
+}
+
+const MAP_WIDTH = 600;
+const MAP_HEIGHT = 700;
+// Ohne passende Geometrie als Kacheln: nur die stärksten Gebiete
+const MAX_TILES = 60;
+
+export function AreaMap({ data, selectedArea, onAreaSelect }: AreaMapProps) {
+  const [layer, setLayer] = useState<MapLayer>('country');
+  const [metric, setMetric] = useState<MapMetric>('bookings');
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+  // Geometrie mit ihrer Ebene, damit nach einem Ebenenwechsel keine veraltete Karte erscheint
+  const [geometry, setGeometry] = useState<{ layer: MapLayer; collection: GeoFeatureCollection } | null>(null);
+  const [geometryError, setGeometryError] = useState(false);
+
+  const layerOption = MAP_LAYERS.find(option => option.value === layer)!;
+
+  const totals = useMemo(() => aggregateByArea(data, layer), [data, layer]);
+  const maxValue = useMemo(
+    () => Array.from(totals.values()).reduce((max, entry) => Math.max(max, entry[metric]), 0),
+    [totals, metric]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setGeometryError(false);
+    loadBundledGeometry(layer)
+      .then(collection => !cancelled && setGeometry({ layer, collection }))
+      .catch((error) => {
+        console.error('Fehler beim Laden der Kartengeometrie:', error);
+        if (!cancelled) setGeometryError(true);
+      });
+    return () => { cancelled = true; };
+  }, [layer]);
+
+  const isGeometryLoading = !geometryError && geometry?.layer !== layer;
+
+  const areas = useMemo(() => {
+    if (geometry?.layer !== layer) return [];
+    // Orte nur zeichnen, wenn dort gebucht wurde; Flächen immer, damit die Karte vollständig bleibt
+    return projectFeatures(geometry.collection, layerOption.getFeatureKey, MAP_WIDTH, MAP_HEIGHT)
+      .filter(area => !area.isPoint || totals.has(area.key));
+  }, [geometry, layer, layerOption, totals]);
+
+  const tiles = useMemo(
+    () => Array.from(totals.entries()).sort((a, b) => b[1][metric] - a[1][metric]).slice(0, MAX_TILES),
+    [totals, metric]
+  );
+
+  const isSelected = (key: string) => selectedArea?.layer === layer && selectedArea.key === key;
+
+  const handleSelect = (key: string) => {
+    onAreaSelect(isSelected(key) ? null : { layer, key });
+  };
+
+  const getValue = (key: string) => totals.get(key)?.[metric] ?? 0;
+
+  const areaProps = (key: string) => ({
+    onMouseEnter: () => setHoveredKey(key),
+    onMouseLeave: () => setHoveredKey(null),
+    onClick: () => handleSelect(key),
+  });
+
+  const hoveredTotals = hoveredKey ? totals.get(hoveredKey) : undefined;
+
+  const renderTile = (key: string) => (
+    <button
+      key={key}
+      {...areaProps(key)}
+      className={`rounded text-xs px-2 py-1 text-gray-900 border ${isSelected(key) ? 'border-gray-900' : 'border-white'}`}
+      style={{ backgroundColor: getAreaShade(getValue(key), maxValue) }}
+    >
+      {key}
+    </button>
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Karte</h2>
+          <p className="text-sm text-gray-500">Ohne Stornierungen. Ein Klick auf ein Gebiet filtert das gesamte Dashboard.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={layer}
+            onChange={(e) => setLayer(e.target.value as MapLayer)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {(['Herkunft', 'Ziel'] as const).map(group => (
+              <optgroup key={group} label={group}>
+                {MAP_LAYERS.filter(option => option.group === group).map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as MapMetric)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {MAP_METRICS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          {isGeometryLoading ? (
+            <p className="text-sm text-gray-500">Karte wird geladen...</p>
+          ) : areas.length > 0 ? (
+            <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full max-h-[700px]">
+              {areas.map((area, index) => (
+                <path
+                  key={`${area.key}-${index}`}
+                  d={area.path}
+                  {...areaProps(area.key)}
+                  fill={getAreaShade(getValue(area.key), maxValue)}
+                  stroke={isSelected(area.key) ? '#111827' : '#ffffff'}
+                  strokeWidth={isSelected(area.key) ? 2 : 0.5}
+                  className="cursor-pointer"
+                />
+              ))}
+            </svg>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {tiles.map(([key]) => renderTile(key))}
+            </div>
+          )}
+          {areas.length > 0 && (
+            <p className="mt-1 text-xs text-gray-400 text-right">{layerOption.attribution}</p>
+          )}
+          {geometryError ? (
+            <p className="mt-3 text-xs text-red-600">Die Kartengeometrie konnte nicht geladen werden; die Gebiete werden als Kacheln dargestellt.</p>
+          ) : !isGeometryLoading && areas.length === 0 && (
+            <p className="mt-3 text-xs text-gray-500">Kein Gebiet der Karte passt zu den Daten; die Gebiete werden als Kacheln dargestellt.</p>
+          )}
+        </div>
+
+        <div className="text-sm">
+          {hoveredKey ? (
+            <div className="rounded-md border border-gray-200 p-3 space-y-1">
+              <p className="font-medium text-gray-900">{hoveredKey}</p>
+              <p className="text-gray-700">Buchungen: {formatNumber(hoveredTotals?.bookings ?? 0)}</p>
+              <p className="text-gray-700">Umsatz: {formatCurrency(hoveredTotals?.revenue ?? 0)}</p>
+              <p className="text-gray-700">Personen: {formatNumber(hoveredTotals?.persons ?? 0)}</p>
+            </div>
+          ) : (
+            <p className="text-gray-500">Gebiet berühren, um die Kennzahlen zu sehen.</p>
+          )}
+          {selectedArea && (
+            <div className="mt-4 flex items-center justify-between rounded-md bg-indigo-50 px-3 py-2 text-indigo-800">
+              <span>Auswahl: {selectedArea.key}</span>
+              <button onClick={() => onAreaSelect(null)} className="text-indigo-600 hover:text-indigo-800">
+                Aufheben
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
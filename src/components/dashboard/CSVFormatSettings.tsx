@@ -0,0 +1,61 @@
+import { CSVEncoding, CSVFormat, DecimalSeparator } from '../../types/import';
+import { CSV_DELIMITERS, CSV_ENCODINGS, DECIMAL_SEPARATORS } from '../../utils/csvSniffer';
+
+interface CSVFormatSettingsProps {
+  format: CSVFormat;
+  detectedFormat: CSVFormat;
+  onChange: (format: CSVFormat) => void;
+}
+
+export function CSVFormatSettings({ format, detectedFormat, onChange }: CSVFormatSettingsProps) {
+  const detectedLabel = (isDetected: boolean) => (isDetected ? ' (erkannt)' : '');
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Trennzeichen
+          <select
+            value={format.delimiter}
+            onChange={(e) => onChange({ ...format, delimiter: e.target.value })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+          >
+            {CSV_DELIMITERS.map((delimiter) => (
+              <option key={delimiter.value} value={delimiter.value}>
+                {delimiter.label}{detectedLabel(delimiter.value === detectedFormat.delimiter)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Zeichensatz
+          <select
+            value={format.encoding}
+            onChange={(e) => onChange({ ...format, encoding: e.target.value as CSVEncoding })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+          >
+            {CSV_ENCODINGS.map((encoding) => (
+              <option key={encoding.value} value={encoding.value}>
+                {encoding.label}{detectedLabel(encoding.value === detectedFormat.encoding)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Zahlenformat
+          <select
+            value={format.decimalSeparator}
+            onChange={(e) => onChange({ ...format, decimalSeparator: e.target.value as DecimalSeparator })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+          >
+            {DECIMAL_SEPARATORS.map((separator) => (
+              <option key={separator.value} value={separator.value}>
+                {separator.label}{detectedLabel(separator.value === detectedFormat.decimalSeparator)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,133 +1,723 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import Papa from 'papaparse';
 import { BookingData } from '../../types/booking';
+import { AnonymizationSettings } from '../../types/anonymization';
+import {
+  BookingUpdate,
+  CSVFormat,
+  ColumnMapping,
+  ConversionOptions,
+  ImportInfo,
+  ImportMode,
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+  RawRow,
+  RawTable,
+} from '../../types/import';
+import { WorkBook } from 'xlsx';
+import { RowValidationResult, validateBookingRecords, validateRows, validateUpdateRows } from '../../utils/bookingSchema';
+import { isJSONFile, parseSerializedBookings } from '../../utils/bookingSerialization';
+import { isExcelFile, readWorkbook, sheetToTable } from '../../utils/excelImport';
+import { detectDecimalSeparator, sniffCSVFormat, toReaderEncoding } from '../../utils/csvSniffer';
+import { formatRawValue } from '../../utils/bookingConversion';
+import { FileMergeSummary, MERGE_STRATEGIES, MergeStrategy, mergeBookings } from '../../utils/mergeBookings';
+import { FileUpdateLog, applyBookingUpdates } from '../../utils/bookingUpdates';
+import { UPDATE_REQUIRED_FIELDS } from '../../utils/columnMapping';
+import { anonymizeBookings, anonymizeUpdate } from '../../utils/anonymize';
+import { formatNumber } from '../../utils/formatters';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { SheetPicker } from './SheetPicker';
+import { ImportSummary } from './ImportSummary';
+import { ImportErrorReport } from './ImportErrorReport';
+import { CSVFormatSettings } from './CSVFormatSettings';
+import { PasteImport } from './PasteImport';
+import { UpdateLog } from './UpdateLog';
 
 interface CSVUploaderProps {
-  onDataLoaded: (data: BookingData[]) => void;
+  currentData: BookingData[];
+  // Gesetzt, wenn currentData anonymisiert gespeichert ist; angehängte und aktualisierte Zeilen werden dann ebenso anonymisiert
+  incomingAnonymization?: AnonymizationSettings | null;
+  onDataLoaded: (data: BookingData[], importInfo: ImportInfo) => void;
 }
 
-export function CSVUploader({ onDataLoaded }: CSVUploaderProps) {
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file) {
-      Papa.parse(file, {
-        header: true,
-        delimiter: ';',
-        dynamicTyping: true,
-        encoding: 'UTF-8',
-        transformHeader: (header: string) => {
-          const headerMap: { [key: string]: string } = {
-            'BookingCode': 'bookingCode',
-            'Buchungsdatum': 'bookingDate',
-            'Anreise': 'arrivalDate',
-            'Abreise': 'departureDate',
-            'ServiceCity': 'serviceCity',
-            'Service Name (SolR)': 'serviceName',
-            'Region': 'region',
-            'Gesamtpreis': 'totalPrice',
-            'Erw.': 'adults',
-            'Kinder': 'children',
-            'Personen': 'persons',
-            'Land': 'country',
-            'PLZ': 'postalCode',
-            'Stadt': 'city',
-            'ServiceCountry': 'serviceCountry',
-            'Storniert': 'cancelled',
-            'Stornodatum': 'cancellationDate',
-            'Vertriebsprovision Netto': 'commission',
-          };
-          return headerMap[header] || header.toLowerCase();
-        },
-        transform: (value: string, field: string) => {
-          if (field === 'bookingDate') {
-            const [date, time] = value.split(' ');
-            return new Date(date + 'T' + time);
-          }
-          if (field === 'arrivalDate' || field === 'departureDate') {
-            const [day, month, year] = value.split('.');
-            return new Date(year + '-' + month + '-' + day);
-          }
-          if (field === 'cancellationDate' && value) {
-            const [day, month, year] = value.split('.');
-            return new Date(year + '-' + month + '-' + day);
-          }
-          if (field === 'cancelled') {
-            return value === 'WAHR';
-          }
-          if (field === 'totalPrice' || field === 'commission') {
-            return parseFloat(value.replace(',', '.'));
-          }
-          return value;
-        },
-        complete: (results) => {
-          const data = results.data as BookingData[];
-          onDataLoaded(data);
-        },
-        error: (error) => {
-          console.error('Fehler beim Parsen der CSV-Datei:', error);
-          alert('Fehler beim Einlesen der CSV-Datei. Bitte überprüfen Sie das Format.');
-        },
+interface PendingImport {
+  fileName: string;
+  // Bei CSV-Dateien nur eine Vorschau; der vollständige Import läuft im Worker
+  table: RawTable;
+  options: ConversionOptions;
+  file?: File;
+  format?: CSVFormat;
+  detectedFormat?: CSVFormat;
+  // JSON/NDJSON: bereits normalisierte Buchungen, keine Spaltenzuordnung nötig
+  records?: RowValidationResult;
+  error?: string;
+}
+
+interface PendingWorkbook {
+  fileName: string;
+  workbook: WorkBook;
+}
+
+interface LoadedFile {
+  fileName: string;
+  bookings: BookingData[];
+  // Nur im Modus „Aktualisierung anwenden“ gefüllt
+  updates: BookingUpdate[];
+}
+
+type ValidationStats = Omit<RowValidationResult, 'bookings'>;
+
+interface PendingReport extends LoadedFile, ValidationStats {}
+
+interface ImportProgress {
+  fileName: string;
+  rows: number;
+  bytes: number;
+  totalBytes: number;
+}
+
+interface ImportResult {
+  summaries: FileMergeSummary[];
+  totalRows: number;
+}
+
+const PREVIEW_ROWS = 100;
+
+const PASTED_DATA_NAME = 'Eingefügte Daten';
+
+const createTableImport = (fileName: string, table: RawTable): PendingImport => {
+  // Native Zahlenzellen brauchen kein Zahlenformat; nur als Text gespeicherte Beträge
+  const textValues = table.rows.slice(0, 200).flatMap(row =>
+    Object.values(row).filter(value => typeof value === 'string').map(formatRawValue)
+  );
+  return {
+    fileName,
+    table,
+    options: { decimalSeparator: detectDecimalSeparator(textValues) },
+  };
+};
+
+const createSheetImport = (fileName: string, workbook: WorkBook, sheetName: string): PendingImport => {
+  return createTableImport(`${fileName} – ${sheetName}`, sheetToTable(workbook, sheetName));
+};
+
+const createFailedImport = (fileName: string, error: string): PendingImport => ({
+  fileName,
+  table: { headers: [], rows: [] },
+  options: { decimalSeparator: ',' },
+  error,
+});
+
+const parseCSVTable = (file: File, format: CSVFormat, preview = 0): Promise<RawTable> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<RawRow>(file, {
+      header: true,
+      delimiter: format.delimiter,
+      encoding: toReaderEncoding(format.encoding),
+      preview,
+      // Für die Vorschau Leerzeilen entfernen, beim vollständigen Einlesen für korrekte Zeilennummern behalten
+      skipEmptyLines: preview > 0 ? 'greedy' : false,
+      transformHeader: (header: string) => header.trim(),
+      complete: (results) => {
+        resolve({
+          headers: results.meta.fields ?? [],
+          rows: results.data,
+        });
+      },
+      error: reject,
+    });
+  });
+};
+
+export function CSVUploader({ currentData, incomingAnonymization, onDataLoaded }: CSVUploaderProps) {
+  const [importMode, setImportMode] = useState<ImportMode>('replace');
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>('newest');
+  const [fileQueue, setFileQueue] = useState<File[]>([]);
+  const [queueSize, setQueueSize] = useState(0);
+  const [loadedFiles, setLoadedFiles] = useState<LoadedFile[]>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [pendingReport, setPendingReport] = useState<PendingReport | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [updateLogs, setUpdateLogs] = useState<FileUpdateLog[] | null>(null);
+  const [isPasting, setIsPasting] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
+  const loadExcelFile = useCallback(async (file: File) => {
+    try {
+      const workbook = await readWorkbook(file);
+      if (workbook.SheetNames.length === 1) {
+        setPendingImport(createSheetImport(file.name, workbook, workbook.SheetNames[0]));
+      } else {
+        setPendingWorkbook({ fileName: file.name, workbook });
+      }
+    } catch (error) {
+      console.error('Fehler beim Einlesen der Excel-Datei:', error);
+      setPendingImport(createFailedImport(
+        file.name,
+        'Fehler beim Einlesen der Excel-Datei. Bitte überprüfen Sie das Format.'
+      ));
+    }
+  }, []);
+
+  const loadCSVFile = useCallback(async (file: File) => {
+    try {
+      const format = await sniffCSVFormat(file);
+      const table = await parseCSVTable(file, format, PREVIEW_ROWS);
+      setPendingImport({
+        fileName: file.name,
+        table,
+        options: format,
+        file,
+        format,
+        detectedFormat: format,
+      });
+    } catch (error) {
+      console.error('Fehler beim Parsen der CSV-Datei:', error);
+      setPendingImport(createFailedImport(
+        file.name,
+        'Fehler beim Einlesen der CSV-Datei. Bitte überprüfen Sie das Format.'
+      ));
+    }
+  }, []);
+
+  const loadJSONFile = useCallback(async (file: File) => {
+    try {
+      const records = validateBookingRecords(parseSerializedBookings(await file.text()));
+      setPendingImport({
+        fileName: file.name,
+        table: { headers: [], rows: [] },
+        options: { decimalSeparator: '.' },
+        records,
       });
+    } catch (error) {
+      console.error('Fehler beim Einlesen der JSON-Datei:', error);
+      setPendingImport(createFailedImport(
+        file.name,
+        'Fehler beim Einlesen der JSON-Datei. Bitte überprüfen Sie das Format.'
+      ));
+    }
+  }, []);
+
+  const loadFile = useCallback((file: File) => {
+    if (isExcelFile(file)) {
+      loadExcelFile(file);
+    } else if (isJSONFile(file)) {
+      loadJSONFile(file);
+    } else {
+      loadCSVFile(file);
+    }
+  }, [loadExcelFile, loadJSONFile, loadCSVFile]);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    setImportResult(null);
+    setUpdateLogs(null);
+    setLoadedFiles([]);
+    setFileQueue(acceptedFiles);
+    setQueueSize(acceptedFiles.length);
+    loadFile(acceptedFiles[0]);
+  }, [loadFile]);
+
+  const handlePasteConfirmed = (table: RawTable) => {
+    setIsPasting(false);
+    setImportResult(null);
+    setUpdateLogs(null);
+    setLoadedFiles([]);
+    // Eingefügte Daten laufen wie ein einzelnes Tabellenblatt durch Zuordnung und Prüfung
+    setFileQueue([]);
+    setQueueSize(1);
+    setPendingImport(createTableImport(PASTED_DATA_NAME, table));
+  };
+
+  const finishUpdate = (loaded: LoadedFile[]) => {
+    let data = currentData;
+    const logs = loaded.map(({ fileName, updates }) => {
+      const result = applyBookingUpdates(
+        data,
+        incomingAnonymization ? updates.map(update => anonymizeUpdate(update, incomingAnonymization)) : updates
+      );
+      data = result.data;
+      return {
+        fileName,
+        rows: updates.length,
+        applied: result.applied,
+        unchanged: result.unchanged,
+        unknownCodes: result.unknownCodes,
+      };
+    });
+
+    onDataLoaded(data, {
+      mode: 'update',
+      sourceFiles: loaded.map(({ fileName }) => fileName),
+    });
+    setUpdateLogs(logs);
+  };
+
+  const finishImport = (loaded: LoadedFile[]) => {
+    setFileQueue([]);
+    setLoadedFiles([]);
+    if (loaded.length === 0) return;
+
+    if (importMode === 'update') {
+      finishUpdate(loaded);
+      return;
+    }
+
+    let data = importMode === 'append' ? currentData : [];
+    const summaries = loaded.map(({ fileName, bookings }) => {
+      const incoming = importMode === 'append' && incomingAnonymization ? anonymizeBookings(bookings, incomingAnonymization) : bookings;
+      const result = mergeBookings(data, incoming, mergeStrategy);
+      data = result.data;
+      return {
+        fileName,
+        rows: bookings.length,
+        added: result.added,
+        updated: result.updated,
+        skipped: result.skipped,
+      };
+    });
+
+    onDataLoaded(data, {
+      mode: importMode,
+      sourceFiles: loaded.map(({ fileName }) => fileName),
+    });
+    setImportResult({ summaries, totalRows: data.length });
+  };
+
+  const continueWithNextFile = (loaded: LoadedFile[]) => {
+    const remaining = fileQueue.slice(1);
+    setPendingImport(null);
+    setPendingWorkbook(null);
+    setPendingReport(null);
+    if (remaining.length === 0) {
+      finishImport(loaded);
+      return;
+    }
+    setFileQueue(remaining);
+    setLoadedFiles(loaded);
+    loadFile(remaining[0]);
+  };
+
+  const handleSheetSelected = (sheetName: string) => {
+    if (!pendingWorkbook) return;
+    setPendingImport(createSheetImport(pendingWorkbook.fileName, pendingWorkbook.workbook, sheetName));
+    setPendingWorkbook(null);
+  };
+
+  const handleValidationResult = (file: LoadedFile, stats: ValidationStats) => {
+    if (stats.issues.length > 0) {
+      setPendingImport(null);
+      setPendingReport({ ...file, ...stats });
+      return;
+    }
+    continueWithNextFile([...loadedFiles, file]);
+  };
+
+  const startWorkerImport = (fileName: string, file: File, format: CSVFormat, mapping: ColumnMapping) => {
+    const worker = new Worker(new URL('../../workers/importWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setPendingImport(null);
+    setImportProgress({ fileName, rows: 0, bytes: 0, totalBytes: file.size });
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setImportProgress({ fileName, rows: message.rows, bytes: message.bytes, totalBytes: message.totalBytes });
+        return;
+      }
+
+      worker.terminate();
+      workerRef.current = null;
+      setImportProgress(null);
+
+      if (message.type === 'complete') {
+        const { bookings, issues, rowCount, invalidRowCount } = message;
+        handleValidationResult({ fileName, bookings, updates: [] }, { issues, rowCount, invalidRowCount });
+      } else {
+        console.error('Fehler beim Parsen der CSV-Datei:', message.message);
+        setPendingImport(createFailedImport(
+          fileName,
+          'Fehler beim Einlesen der CSV-Datei. Bitte überprüfen Sie das Format.'
+        ));
+      }
+    };
+
+    const request: ImportWorkerRequest = { file, mapping, format };
+    worker.postMessage(request);
+  };
+
+  const handleUpdateMapping = async (mapping: ColumnMapping) => {
+    if (!pendingImport) return;
+    const { fileName, file, format, options } = pendingImport;
+    try {
+      // Änderungsdateien sind klein und werden ohne Worker vollständig eingelesen
+      const table = file && format ? await parseCSVTable(file, format) : pendingImport.table;
+      const { updates, ...stats } = validateUpdateRows(table.rows, mapping, 2, options);
+      handleValidationResult({ fileName, bookings: [], updates }, stats);
+    } catch (error) {
+      console.error('Fehler beim Parsen der CSV-Datei:', error);
+      setPendingImport(createFailedImport(
+        fileName,
+        'Fehler beim Einlesen der CSV-Datei. Bitte überprüfen Sie das Format.'
+      ));
+    }
+  };
+
+  const handleMappingConfirmed = (mapping: ColumnMapping) => {
+    if (!pendingImport) return;
+    if (importMode === 'update') {
+      handleUpdateMapping(mapping);
+      return;
+    }
+    if (pendingImport.file && pendingImport.format) {
+      startWorkerImport(pendingImport.fileName, pendingImport.file, pendingImport.format, mapping);
+      return;
+    }
+    const { bookings, ...stats } = validateRows(pendingImport.table.rows, mapping, 2, pendingImport.options);
+    handleValidationResult({ fileName: pendingImport.fileName, bookings, updates: [] }, stats);
+  };
+
+  const handleFormatChange = async (format: CSVFormat) => {
+    if (!pendingImport?.file || !pendingImport.format) return;
+    const { file, format: previousFormat } = pendingImport;
+
+    if (format.delimiter === previousFormat.delimiter && format.encoding === previousFormat.encoding) {
+      setPendingImport({ ...pendingImport, format, options: format });
+      return;
+    }
+
+    try {
+      const table = await parseCSVTable(file, format, PREVIEW_ROWS);
+      setPendingImport({ ...pendingImport, table, format, options: format });
+    } catch (error) {
+      console.error('Fehler beim Parsen der CSV-Datei:', error);
     }
-  }, [onDataLoaded]);
+  };
+
+
+  const handleRecordsConfirmed = () => {
+    if (!pendingImport?.records) return;
+    const { bookings, ...stats } = pendingImport.records;
+    // Vollständige Buchungen lassen sich auch als Aktualisierung anwenden
+    const updates = importMode === 'update' ? bookings : [];
+    handleValidationResult({ fileName: pendingImport.fileName, bookings, updates }, stats);
+  };
+
+  const handleImportValidRows = () => {
+    if (!pendingReport) return;
+    const { fileName, bookings, updates } = pendingReport;
+    continueWithNextFile([...loadedFiles, { fileName, bookings, updates }]);
+  };
+
+  const handleAbortImport = () => {
+    setPendingImport(null);
+    setPendingWorkbook(null);
+    setPendingReport(null);
+    setFileQueue([]);
+    setLoadedFiles([]);
+    setQueueSize(0);
+  };
+
+  const handleSkipFile = () => {
+    continueWithNextFile(loadedFiles);
+  };
+
+  const handleCancelWorkerImport = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setImportProgress(null);
+    // Nur die laufende Datei verwerfen; bereits geprüfte Dateien der Auswahl bleiben erhalten
+    handleSkipFile();
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
     },
-    multiple: false,
+    multiple: true,
   });
 
-  return (
-    <div
-      {...getRootProps()}
-      className={`
-        w-full p-8 border-2 border-dashed rounded-lg text-center cursor-pointer
-        transition-colors duration-200 ease-in-out
-        ${isDragActive 
-          ? 'border-indigo-500 bg-indigo-50' 
-          : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'
-        }
-      `}
-    >
-      <input {...getInputProps()} />
-      <div className="space-y-4">
-        <div className="flex justify-center">
-          <svg
-            className={`w-12 h-12 ${isDragActive ? 'text-indigo-500' : 'text-gray-400'}`}
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 48 48"
+  const queuePosition = queueSize > 1 && (
+    <p className="mb-2 text-sm text-gray-500">
+      Datei {queueSize - fileQueue.length + 1} von {queueSize}
+    </p>
+  );
+
+  if (isPasting) {
+    return <PasteImport onConfirm={handlePasteConfirmed} onCancel={() => setIsPasting(false)} />;
+  }
+
+  if (pendingWorkbook) {
+    return (
+      <div>
+        {queuePosition}
+        <SheetPicker
+          fileName={pendingWorkbook.fileName}
+          sheetNames={pendingWorkbook.workbook.SheetNames}
+          onSelect={handleSheetSelected}
+          onCancel={handleSkipFile}
+        />
+      </div>
+    );
+  }
+
+  if (importProgress) {
+    const percentage = importProgress.totalBytes > 0
+      ? Math.min(100, (importProgress.bytes / importProgress.totalBytes) * 100)
+      : 0;
+    return (
+      <div>
+        {queuePosition}
+        <div className="w-full p-8 border-2 border-dashed border-indigo-300 rounded-lg text-center space-y-4">
+          <div className="text-lg font-medium text-gray-700">{importProgress.fileName} wird importiert...</div>
+          <div className="h-2 bg-gray-200 rounded-full">
+            <div
+              className="h-2 bg-indigo-600 rounded-full transition-all duration-200"
+              style={{ width: `${percentage}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            {formatNumber(importProgress.rows)} Zeilen · {formatNumber(Math.round(importProgress.bytes / 1024))} von{' '}
+            {formatNumber(Math.round(importProgress.totalBytes / 1024))} KB verarbeitet
+          </p>
+          <button
+            onClick={handleCancelWorkerImport}
+            className="rounded-lg bg-white border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M8 14v20c0 4.418 3.582 8 8 8h16c4.418 0 8-3.582 8-8V14M8 14c0-4.418 3.582-8 8-8h16c4.418 0 8 3.582 8 8M8 14h32"
+            {queueSize > 1 ? 'Diese Datei überspringen' : 'Abbrechen'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (pendingReport) {
+    return (
+      <div>
+        {queuePosition}
+        <ImportErrorReport
+          fileName={pendingReport.fileName}
+          issues={pendingReport.issues}
+          rowCount={pendingReport.rowCount}
+          invalidRowCount={pendingReport.invalidRowCount}
+          onImportValid={handleImportValidRows}
+          onAbort={handleAbortImport}
+        />
+      </div>
+    );
+  }
+
+  if (pendingImport?.error) {
+    return (
+      <div>
+        {queuePosition}
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{pendingImport.fileName}</h2>
+            <p className="text-sm text-red-600">{pendingImport.error}</p>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleSkipFile}
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+            >
+              Datei überspringen
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (pendingImport?.records) {
+    const { rowCount, invalidRowCount } = pendingImport.records;
+    return (
+      <div>
+        {queuePosition}
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{pendingImport.fileName}</h2>
+            <p className="text-sm text-gray-500">
+              Normalisierte Buchungsdaten · {formatNumber(rowCount - invalidRowCount)} von {formatNumber(rowCount)}{' '}
+              Datensätzen gültig
+            </p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleSkipFile}
+              className="rounded-lg bg-white border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Abbrechen
+            </button>
+            <button
+              onClick={handleRecordsConfirmed}
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+            >
+              Importieren
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (pendingImport) {
+    return (
+      <div className="space-y-4">
+        {queuePosition}
+        {pendingImport.format && pendingImport.detectedFormat && (
+          <CSVFormatSettings
+            format={pendingImport.format}
+            detectedFormat={pendingImport.detectedFormat}
+            onChange={handleFormatChange}
+          />
+        )}
+        <ColumnMappingWizard
+          key={pendingImport.format ? `${pendingImport.format.delimiter}|${pendingImport.format.encoding}` : undefined}
+          fileName={pendingImport.fileName}
+          table={pendingImport.table}
+          isPreview={pendingImport.file !== undefined}
+          requiredFields={importMode === 'update' ? UPDATE_REQUIRED_FIELDS : undefined}
+          onConfirm={handleMappingConfirmed}
+          onCancel={handleSkipFile}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 text-sm text-gray-700">
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === 'replace'}
+              onChange={() => setImportMode('replace')}
+            />
+            Datensatz ersetzen
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === 'append'}
+              onChange={() => setImportMode('append')}
+              disabled={currentData.length === 0}
             />
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M24 14v20M17 21l7-7 7 7"
+            An vorhandene Daten anhängen
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === 'update'}
+              onChange={() => setImportMode('update')}
+              disabled={currentData.length === 0}
             />
-          </svg>
+            Aktualisierung anwenden
+          </label>
         </div>
-        <div className="text-lg font-medium text-gray-700">
-          {isDragActive ? (
-            'CSV-Datei hier ablegen...'
-          ) : (
-            <>
-              <span className="text-indigo-600">Klicken</span> oder CSV-Datei hierher ziehen
-            </>
-          )}
+        {importMode !== 'update' && (
+          <label className="flex items-center gap-2 sm:ml-auto">
+            Bei gleichem Buchungscode:
+            <select
+              value={mergeStrategy}
+              onChange={(e) => setMergeStrategy(e.target.value as MergeStrategy)}
+              className="rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+            >
+              {MERGE_STRATEGIES.map((strategy) => (
+                <option key={strategy.value} value={strategy.value}>
+                  {strategy.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={`
+          w-full p-8 border-2 border-dashed rounded-lg text-center cursor-pointer
+          transition-colors duration-200 ease-in-out
+          ${isDragActive 
+            ? 'border-indigo-500 bg-indigo-50' 
+            : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'
+          }
+        `}
+      >
+        <input {...getInputProps()} />
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            <svg
+              className={`w-12 h-12 ${isDragActive ? 'text-indigo-500' : 'text-gray-400'}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 48 48"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 14v20c0 4.418 3.582 8 8 8h16c4.418 0 8-3.582 8-8V14M8 14c0-4.418 3.582-8 8-8h16c4.418 0 8 3.582 8 8M8 14h32"
+              />
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M24 14v20M17 21l7-7 7 7"
+              />
+            </svg>
+          </div>
+          <div className="text-lg font-medium text-gray-700">
+            {isDragActive ? (
+              'Datei hier ablegen...'
+            ) : (
+              <>
+                <span className="text-indigo-600">Klicken</span> oder CSV-, Excel- oder JSON-Datei hierher ziehen
+              </>
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            Unterstützt werden CSV-, Excel- und JSON-Dateien (.csv, .xlsx, .xls, .json, .ndjson), auch mehrere auf einmal
+          </p>
         </div>
-        <p className="text-sm text-gray-500">
-          Nur CSV-Dateien werden unterstützt
-        </p>
       </div>
+
+      <div className="text-center">
+        <button
+          onClick={() => setIsPasting(true)}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          oder Daten aus Excel bzw. Google Sheets einfügen
+        </button>
+      </div>
+
+      {importResult && (
+        <ImportSummary
+          summaries={importResult.summaries}
+          totalRows={importResult.totalRows}
+          onClose={() => setImportResult(null)}
+        />
+      )}
+
+      {updateLogs && (
+        <UpdateLog logs={updateLogs} onClose={() => setUpdateLogs(null)} />
+      )}
     </div>
   );
 }
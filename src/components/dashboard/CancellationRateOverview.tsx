@@ -1,65 +1,23 @@
 import { useMemo } from 'react';
 import { BookingData } from '../../types/booking';
-import { formatPercentage } from '../../utils/formatters';
+import { formatCurrency, formatNumber, formatPercentage } from '../../utils/formatters';
+import { calculateMetrics, relativeChange } from '../../utils/metrics';
 
 interface CancellationRateOverviewProps {
   data: BookingData[];
   comparisonData?: BookingData[];
 }
 
-interface CancellationStats {
-  totalBookings: number;
-  cancelledBookings: number;
-  cancellationRate: number;
-  totalCommission: number;
-  cancelledCommission: number;
-  commissionLossRate: number;
-}
-
 export function CancellationRateOverview({ data, comparisonData }: CancellationRateOverviewProps) {
-  const stats = useMemo(() => {
-    const calculateStats = (bookings: BookingData[]): CancellationStats => {
-      const totalBookings = bookings.length;
-      const cancelledBookings = bookings.filter(booking => booking.cancelled).length;
-      
-      const totalCommission = bookings.reduce((sum, booking) => {
-        const commission = typeof booking.commission === 'number' 
-          ? booking.commission 
-          : parseFloat(booking.commission || '0');
-        return sum + (booking.cancelled ? 0 : commission);
-      }, 0);
-
-      const cancelledCommission = bookings
-        .filter(booking => booking.cancelled)
-        .reduce((sum, booking) => {
-          const commission = typeof booking.commission === 'number' 
-            ? booking.commission 
-            : parseFloat(booking.commission || '0');
-          return sum + commission;
-        }, 0);
-
-      return {
-        totalBookings,
-        cancelledBookings,
-        cancellationRate: (cancelledBookings / totalBookings) * 100,
-        totalCommission,
-        cancelledCommission,
-        commissionLossRate: (cancelledCommission / (totalCommission + cancelledCommission)) * 100
-      };
-    };
-
-    const currentStats = calculateStats(data);
-    const compStats = comparisonData ? calculateStats(comparisonData) : undefined;
-
-    return {
-      current: currentStats,
-      comparison: compStats
-    };
-  }, [data, comparisonData]);
+  const stats = useMemo(() => ({
+    current: calculateMetrics(data),
+    comparison: comparisonData ? calculateMetrics(comparisonData) : undefined,
+  }), [data, comparisonData]);
 
   const renderChangeIndicator = (current: number, previous?: number) => {
-    if (!previous) return null;
-    const change = ((current - previous) / previous) * 100;
+    const relative = relativeChange(current, previous);
+    if (relative === null) return null;
+    const change = relative * 100;
     const isPositive = change > 0;
     const color = isPositive ? 'text-red-600' : 'text-green-600';
     
@@ -85,7 +43,7 @@ export function CancellationRateOverview({ data, comparisonData }: CancellationR
             )}
           </div>
           <div className="mt-1 text-sm text-gray-500">
-            {stats.current.cancelledBookings} von {stats.current.totalBookings} Buchungen
+            {formatNumber(stats.current.cancelledBookings)} von {formatNumber(stats.current.bookings)} Buchungen
           </div>
         </div>
 
@@ -99,7 +57,8 @@ export function CancellationRateOverview({ data, comparisonData }: CancellationR
             )}
           </div>
           <div className="mt-1 text-sm text-gray-500">
-            {stats.current.cancelledCommission} von {stats.current.totalCommission + stats.current.cancelledCommission}
+            {formatCurrency(stats.current.cancelledCommission)} von{' '}
+            {formatCurrency(stats.current.commission + stats.current.cancelledCommission)}
           </div>
         </div>
 
@@ -107,7 +66,7 @@ export function CancellationRateOverview({ data, comparisonData }: CancellationR
           <div className="h-2 bg-gray-200 rounded-full">
             <div
               className="h-2 bg-blue-600 rounded-full"
-              style={{ width: `${100 - stats.current.cancellationRate}%` }}
+              style={{ width: `${(1 - stats.current.cancellationRate) * 100}%` }}
             />
           </div>
         </div>
@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import { format, parse } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { BookingData } from '../../types/booking';
+import { COHORT_METRICS, CohortMetric, MAX_COHORT_OFFSET, buildCohortMatrix, getBookingYears } from '../../utils/cohorts';
+import { formatCurrency, formatDays, formatNumber, formatPercentage } from '../../utils/formatters';
+
+interface CohortAnalysisProps {
+  data: BookingData[];
+}
+
+export function CohortAnalysis({ data }: CohortAnalysisProps) {
+  const [metric, setMetric] = useState<CohortMetric>('cancellationRate');
+  const [selectedYear, setSelectedYear] = useState<number | ''>('');
+
+  const years = useMemo(() => getBookingYears(data), [data]);
+  const year = selectedYear !== '' && years.includes(selectedYear) ? selectedYear : '';
+
+  const matrix = useMemo(() => {
+    const cohortData = year === '' ? data : data.filter(booking => booking.bookingDate.getFullYear() === year);
+    return buildCohortMatrix(cohortData, metric);
+  }, [data, year, metric]);
+
+  const formatCell = (value: number | null) => {
+    if (value === null) return '';
+    if (metric === 'revenue') return formatNumber(Math.round(value));
+    return formatPercentage(value);
+  };
+
+  const getCellStyle = (value: number | null, rowValues: (number | null)[]) => {
+    if (value === null || value === 0) return undefined;
+    const rowMax = Math.max(...rowValues.map(cell => cell ?? 0));
+    const intensity = metric === 'revenue' ? value / rowMax : Math.min(1, value);
+    return { backgroundColor: `rgba(37, 99, 235, ${(0.1 + intensity * 0.6).toFixed(2)})` };
+  };
+
+  if (data.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Buchungskohorten</h2>
+          <p className="text-sm text-gray-500">{COHORT_METRICS.find(option => option.value === metric)?.description}</p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as CohortMetric)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {COHORT_METRICS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={year}
+            onChange={(e) => setSelectedYear(e.target.value === '' ? '' : Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="">Alle Buchungsjahre</option>
+            {years.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-[600px]">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungsmonat</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungen</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Storniert</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Median Tage bis Storno</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Umsatz</th>
+              {matrix.offsets.map(offset => (
+                <th key={offset} className="px-2 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {offset === MAX_COHORT_OFFSET ? `M${offset}+` : `M${offset}`}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {matrix.rows.map(row => (
+              <tr key={row.cohort}>
+                <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">
+                  {format(parse(row.cohort, 'yyyy-MM', new Date()), 'MMM yyyy', { locale: de })}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700">{formatNumber(row.bookings)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700">
+                  {formatNumber(row.cancelled)} ({formatPercentage(row.cancellationRate)})
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700">
+                  {row.medianDaysToCancel === null ? '–' : formatDays(row.medianDaysToCancel)}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700">{formatCurrency(row.revenue)}</td>
+                {row.cells.map((value, index) => (
+                  <td
+                    key={matrix.offsets[index]}
+                    className="px-2 py-2 whitespace-nowrap text-right text-xs text-gray-900"
+                    style={getCellStyle(value, row.cells)}
+                  >
+                    {formatCell(value)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="px-4 py-3 text-xs text-gray-500 border-t border-gray-200">
+        M0 = Buchungsmonat, M1 = Folgemonat usw.{metric === 'revenue' && ' Umsatz in EUR ohne Stornierungen.'}
+        {metric === 'cancellationRate' && ' Leere Zellen liegen nach dem letzten Buchungs- oder Stornierungsdatum der Daten.'}
+      </p>
+    </div>
+  );
+}
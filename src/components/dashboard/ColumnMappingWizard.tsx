@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import { BookingField, ColumnMapping, ImportProfile, RawTable } from '../../types/import';
+import {
+  BOOKING_FIELDS,
+  REQUIRED_FIELDS,
+  applyMapping,
+  getDuplicateFields,
+  getHeaderSignature,
+  getMissingRequiredFields,
+  getSampleValues,
+  suggestMapping,
+} from '../../utils/columnMapping';
+import {
+  deleteImportProfile,
+  findProfileForSignature,
+  loadImportProfiles,
+  saveImportProfile,
+} from '../../utils/importProfiles';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  table: RawTable;
+  isPreview?: boolean;
+  requiredFields?: BookingField[];
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingWizard({
+  fileName,
+  table,
+  isPreview = false,
+  requiredFields = REQUIRED_FIELDS,
+  onConfirm,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const headerSignature = useMemo(() => getHeaderSignature(table.headers), [table.headers]);
+  const samples = useMemo(() => getSampleValues(table), [table]);
+
+  const [profiles, setProfiles] = useState<ImportProfile[]>(() => loadImportProfiles());
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(
+    () => findProfileForSignature(profiles, headerSignature)?.id ?? ''
+  );
+  const [mapping, setMapping] = useState<ColumnMapping>(() => {
+    const profile = findProfileForSignature(profiles, headerSignature);
+    return profile ? applyMapping(table.headers, profile.mapping) : suggestMapping(table.headers);
+  });
+  const [profileName, setProfileName] = useState<string>(
+    () => profiles.find(profile => profile.id === selectedProfileId)?.name ?? ''
+  );
+
+  const missingFields = getMissingRequiredFields(mapping, requiredFields);
+  const duplicateFields = getDuplicateFields(mapping);
+  const canConfirm = missingFields.length === 0 && duplicateFields.length === 0;
+
+  const handleProfileChange = (id: string) => {
+    setSelectedProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setMapping(applyMapping(table.headers, profile.mapping));
+      setProfileName(profile.name);
+    } else {
+      setMapping(suggestMapping(table.headers));
+      setProfileName('');
+    }
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    const profile = saveImportProfile(name, headerSignature, mapping);
+    setProfiles(loadImportProfiles());
+    setSelectedProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!selectedProfileId) return;
+    deleteImportProfile(selectedProfileId);
+    setProfiles(loadImportProfiles());
+    setSelectedProfileId('');
+    setProfileName('');
+  };
+
+  const handleFieldChange = (header: string, field: BookingField | '') => {
+    setMapping(current => ({ ...current, [header]: field }));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Spalten zuordnen</h2>
+          <p className="text-sm text-gray-500">
+            {fileName} · {table.headers.length} Spalten ·{' '}
+            {isPreview ? `Vorschau der ersten ${table.rows.length} Zeilen` : `${table.rows.length} Zeilen`}
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={selectedProfileId}
+            onChange={(e) => handleProfileChange(e.target.value)}
+            className="rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+          >
+            <option value="">Kein Profil (Vorschlag)</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+                {profile.headerSignature === headerSignature ? ' ✓' : ''}
+              </option>
+            ))}
+          </select>
+          {selectedProfileId && (
+            <button
+              onClick={handleDeleteProfile}
+              className="rounded-lg bg-gray-100 px-3 py-2 text-sm text-gray-700 hover:bg-gray-200"
+            >
+              Profil löschen
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Spalte in der Datei
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Beispielwerte
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Feld
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {table.headers.map((header) => {
+              const field = mapping[header];
+              const isDuplicate = field !== '' && duplicateFields.includes(field);
+              return (
+                <tr key={header}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {header}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">
+                    {samples[header].length > 0 ? samples[header].join(' · ') : '–'}
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={field}
+                      onChange={(e) => handleFieldChange(header, e.target.value as BookingField | '')}
+                      className={`w-full rounded-md border p-2 text-sm ${
+                        isDuplicate ? 'border-red-400 bg-red-50' : 'border-gray-300 bg-white'
+                      }`}
+                    >
+                      <option value="">– ignorieren –</option>
+                      {BOOKING_FIELDS.map((definition) => (
+                        <option key={definition.field} value={definition.field}>
+                          {definition.label}{requiredFields.includes(definition.field) ? ' *' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {(missingFields.length > 0 || duplicateFields.length > 0) && (
+        <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800 space-y-1">
+          {missingFields.length > 0 && (
+            <div>Nicht zugeordnete Pflichtfelder: {missingFields.map(d => d.label).join(', ')}</div>
+          )}
+          {duplicateFields.length > 0 && (
+            <div>
+              Mehrfach zugeordnet: {duplicateFields
+                .map(f => BOOKING_FIELDS.find(d => d.field === f)?.label ?? f)
+                .join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profilname"
+            className="rounded-md border border-gray-300 p-2 text-sm"
+          />
+          <button
+            onClick={handleSaveProfile}
+            disabled={!profileName.trim()}
+            className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Als Profil speichern
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-lg bg-white border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={() => onConfirm(mapping)}
+            disabled={!canConfirm}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Importieren
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { BookingData } from '../../types/booking';
+import { CustomMetric, CustomMetricFormat } from '../../types/customMetric';
+import { FORMULA_FIELDS, FORMULA_FUNCTIONS, evaluateFormula, parseFormula } from '../../utils/formula';
+import { CUSTOM_METRIC_FORMATS, calculateCustomMetric, formatCustomMetric } from '../../utils/customMetrics';
+
+interface CustomMetricsEditorProps {
+  metrics: CustomMetric[];
+  onChange: (metrics: CustomMetric[]) => void;
+  data: BookingData[];
+}
+
+const EXAMPLES = [
+  { name: 'Provision pro Person', formula: 'sum(commission * active) / sum(persons * active)', format: 'currency' },
+  { name: 'Anteil Buchungen mit Kindern', formula: 'count(children > 0) / count()', format: 'percent' },
+  { name: 'Umsatz netto (19 % USt.)', formula: 'sum(totalPrice * active) / 1.19', format: 'currency' },
+] as const;
+
+export function CustomMetricsEditor({ metrics, onChange, data }: CustomMetricsEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [formula, setFormula] = useState('');
+  const [format, setFormat] = useState<CustomMetricFormat>('number');
+
+  const parsed = useMemo(() => parseFormula(formula), [formula]);
+  const preview = useMemo(() => (parsed.ok ? evaluateFormula(parsed.node, data) : NaN), [parsed, data]);
+  const canSave = parsed.ok && name.trim() !== '';
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setFormula('');
+    setFormat('number');
+  };
+
+  const handleEdit = (metric: CustomMetric) => {
+    setEditingId(metric.id);
+    setName(metric.name);
+    setFormula(metric.formula);
+    setFormat(metric.format);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const metric: CustomMetric = { id: editingId ?? crypto.randomUUID(), name: name.trim(), formula: formula.trim(), format };
+    onChange(editingId ? metrics.map(entry => (entry.id === editingId ? metric : entry)) : [...metrics, metric]);
+    resetForm();
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Diese Kennzahl wirklich löschen?')) return;
+    onChange(metrics.filter(entry => entry.id !== id));
+    if (editingId === id) resetForm();
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800">Eigene Kennzahlen</h2>
+        <p className="text-sm text-gray-500">Erscheinen in den KPI-Karten, den Top-Tabellen und der Pivot-Tabelle</p>
+      </div>
+
+      {metrics.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Formel</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aktueller Wert</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {metrics.map((metric) => (
+                <tr key={metric.id}>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{metric.name}</td>
+                  <td className="px-6 py-2 text-sm font-mono text-gray-700">{metric.formula}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {formatCustomMetric(calculateCustomMetric(metric, data), metric.format)}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right space-x-3">
+                    <button onClick={() => handleEdit(metric)} className="text-blue-600 hover:text-blue-800">Bearbeiten</button>
+                    <button onClick={() => handleDelete(metric.id)} className="text-red-600 hover:text-red-800">Löschen</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="p-4 border-t border-gray-200 space-y-3">
+        <div className="flex flex-wrap gap-4">
+          <label className="flex flex-col text-sm text-gray-700">
+            Name
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 w-64 rounded-md border border-gray-300 px-2 py-1 text-sm"
+            />
+          </label>
+          <label className="flex flex-col text-sm text-gray-700 flex-1 min-w-[300px]">
+            Formel
+            <input
+              type="text"
+              value={formula}
+              onChange={(e) => setFormula(e.target.value)}
+              placeholder="sum(commission) / sum(persons)"
+              spellCheck={false}
+              className={`mt-1 rounded-md border px-2 py-1 text-sm font-mono ${
+                formula && !parsed.ok ? 'border-red-400' : 'border-gray-300'
+              }`}
+            />
+          </label>
+          <label className="flex flex-col text-sm text-gray-700">
+            Format
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as CustomMetricFormat)}
+              className="mt-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+            >
+              {CUSTOM_METRIC_FORMATS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {formula && (
+          parsed.ok ? (
+            <p className="text-sm text-gray-600">
+              Ergebnis für die aktuelle Auswahl: <span className="font-medium">{formatCustomMetric(preview, format)}</span>
+            </p>
+          ) : (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+              <div>{parsed.error} (Zeichen {parsed.position + 1})</div>
+              <pre className="mt-1 font-mono text-xs">
+                {formula}
+                {'\n'}
+                {' '.repeat(parsed.position)}^
+              </pre>
+            </div>
+          )
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {editingId ? 'Änderungen speichern' : 'Kennzahl hinzufügen'}
+          </button>
+          {editingId && (
+            <button
+              onClick={resetForm}
+              className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+            >
+              Abbrechen
+            </button>
+          )}
+        </div>
+
+        <details className="text-sm text-gray-600">
+          <summary className="cursor-pointer">Hilfe zur Formelsprache</summary>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <div className="font-medium text-gray-800">Felder (nur innerhalb von Funktionen)</div>
+              <ul className="mt-1 space-y-0.5">
+                {FORMULA_FIELDS.map(entry => (
+                  <li key={entry.field}><code>{entry.field}</code> – {entry.label}</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <div className="font-medium text-gray-800">Funktionen</div>
+              <ul className="mt-1 space-y-0.5">
+                {FORMULA_FUNCTIONS.map(entry => (
+                  <li key={entry.fn}><code>{entry.fn}()</code> – {entry.description}</li>
+                ))}
+              </ul>
+              <p className="mt-2">
+                Operatoren: <code>+ - * /</code> und Vergleiche <code>&gt; &lt; &gt;= &lt;= == !=</code> (ergeben 1 oder 0).
+                Felder sind Rohwerte; <code>* active</code> schließt Stornierungen aus.
+              </p>
+            </div>
+            <div>
+              <div className="font-medium text-gray-800">Beispiele</div>
+              <ul className="mt-1 space-y-1">
+                {EXAMPLES.map(example => (
+                  <li key={example.name}>
+                    <button
+                      onClick={() => {
+                        setName(example.name);
+                        setFormula(example.formula);
+                        setFormat(example.format);
+                      }}
+                      className="text-left text-blue-600 hover:text-blue-800"
+                    >
+                      {example.name}: <code>{example.formula}</code>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </details>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
-import { useState, useMemo } from 'react';
-import { BookingData } from '../../types/booking';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { BookingData, FilterState } from '../../types/booking';
+import { DatasetMeta } from '../../types/dataset';
+import { ImportInfo } from '../../types/import';
 import { DataTable } from './DataTable';
 import { TopAccommodationsTable } from './TopAccommodationsTable';
 import { TopCitiesTable } from './TopCitiesTable';
+import { SourceMarketAnalysis } from './SourceMarketAnalysis';
+import { AreaMap } from './AreaMap';
 import { CSVUploader } from './CSVUploader';
 import { DateRangePicker } from './DateRangePicker';
 import { YearComparisonPicker } from './YearComparisonPicker';
@@ -10,80 +14,269 @@ import { FilterToggle } from './FilterToggle';
 import { RegionFilter } from './RegionFilter';
 import { ExportTools } from './ExportTools';
 import { KPICards } from './KPICards';
+import { YearComparisonTable } from './YearComparisonTable';
+import { LeadTimeAnalysis } from './LeadTimeAnalysis';
+import { OccupancyCalendar } from './OccupancyCalendar';
+import { DateBasisPicker } from './DateBasisPicker';
+import { PivotTable } from './PivotTable';
+import { CustomMetricsEditor } from './CustomMetricsEditor';
+import { CancellationRateOverview } from './CancellationRateOverview';
+import { CohortAnalysis } from './CohortAnalysis';
+import { PaceReport } from './PaceReport';
+import { ForecastPanel } from './ForecastPanel';
+import { AnomalyList } from './AnomalyList';
+import { TrendsChart } from './charts/TrendsChart';
+import { CustomMetric } from '../../types/customMetric';
+import { DatasetLibrary } from './DatasetLibrary';
+import { DatasetDiffView } from './DatasetDiffView';
+import { AnonymizationPanel } from './AnonymizationPanel';
+import { AnonymizationBadge } from './AnonymizationBadge';
+import { AnonymizationSettings } from '../../types/anonymization';
+import {
+  anonymizeBookings,
+  getIncomingAnonymization,
+  isAnonymizationEnabled,
+  loadAnonymizationSettings,
+  saveAnonymizationSettings,
+} from '../../utils/anonymize';
+import {
+  deleteDataset,
+  getActiveDatasetId,
+  listDatasets,
+  loadDataset,
+  renameDataset,
+  saveDataset,
+  setActiveDatasetId as storeActiveDatasetId,
+  updateDataset,
+} from '../../utils/datasetStore';
 import { formatCurrency, formatPercentage } from '../../utils/formatters';
-import { startOfDay, endOfDay, isWithinInterval } from 'date-fns';
+import { RevenueAllocation, overlapsStay } from '../../utils/stayAllocation';
+import { DateBasis, getBasisDate, loadDateBasis, saveDateBasis } from '../../utils/dateBasis';
+import { loadCustomMetrics, saveCustomMetrics } from '../../utils/customMetrics';
+import { forecastMonths } from '../../utils/forecast';
+import { Anomaly, DEFAULT_ANOMALY_THRESHOLD, describeAnomaly, detectAnomalies, getAnomalyBookings } from '../../utils/anomalies';
+import { getObservationDate } from '../../utils/pace';
+import { AreaFilter, MAP_LAYERS, matchesArea } from '../../utils/geoMap';
+import { startOfDay, endOfDay, isWithinInterval, startOfYear, endOfYear } from 'date-fns';
+
+const ALL_REGIONS = 'Alle Regionen';
+
+const matchesRegion = (booking: BookingData, region: string) => {
+  return !region || region === ALL_REGIONS || booking.region === region;
+};
 
 export function DashboardLayout() {
   const [data, setData] = useState<BookingData[]>([]);
   const [isYearComparison, setIsYearComparison] = useState<boolean>(false);
   const [selectedYear1, setSelectedYear1] = useState<number>(new Date().getFullYear());
   const [selectedYear2, setSelectedYear2] = useState<number>(new Date().getFullYear() - 1);
-  const [selectedRegion, setSelectedRegion] = useState<string>('Alle Regionen');
+  const [selectedRegion, setSelectedRegion] = useState<string>(ALL_REGIONS);
+  const [dateRange, setDateRange] = useState<FilterState['dateRange']>({ start: null, end: null });
+  const [dateBasis, setDateBasis] = useState<DateBasis>(() => loadDateBasis());
+  const [customMetrics, setCustomMetrics] = useState<CustomMetric[]>(() => loadCustomMetrics());
+  const [datasets, setDatasets] = useState<DatasetMeta[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [isDatasetLoading, setIsDatasetLoading] = useState<boolean>(false);
+  const [anonymization, setAnonymization] = useState<AnonymizationSettings>(() => loadAnonymizationSettings());
+  const [revenueAllocation, setRevenueAllocation] = useState<RevenueAllocation>('basis');
+  const [anomalyThreshold, setAnomalyThreshold] = useState<number>(DEFAULT_ANOMALY_THRESHOLD);
+  const [focusedAnomaly, setFocusedAnomaly] = useState<Anomaly | null>(null);
+  const [areaFilter, setAreaFilter] = useState<AreaFilter | null>(null);
+  const dataTableRef = useRef<HTMLDivElement>(null);
+
+  // Alle Auswertungen und Exporte arbeiten auf den anonymisierten Daten; Importe führen die Rohdaten zusammen
+  const displayData = useMemo(() => anonymizeBookings(data, anonymization), [data, anonymization]);
+  const activeDataset = datasets.find(dataset => dataset.id === activeDatasetId);
+  // Beim Import anonymisierte Datensätze: neue Zeilen vor dem Abgleich ebenso anonymisieren, sonst passen die Buchungscodes nicht
+  const incomingAnonymization = useMemo(
+    () => (activeDataset?.anonymized ? getIncomingAnonymization(anonymization, data) : null),
+    [activeDataset, anonymization, data]
+  );
+
+  const handleAnonymizationChange = (settings: AnonymizationSettings) => {
+    setAnonymization(settings);
+    saveAnonymizationSettings(settings);
+  };
+
+  const handleDateBasisChange = (basis: DateBasis) => {
+    setDateBasis(basis);
+    saveDateBasis(basis);
+  };
+
+  const handleCustomMetricsChange = (metrics: CustomMetric[]) => {
+    setCustomMetrics(metrics);
+    saveCustomMetrics(metrics);
+  };
+
+  const activateDataset = (id: string | null) => {
+    setActiveDatasetId(id);
+    storeActiveDatasetId(id);
+  };
+
+  const openDataset = async (id: string) => {
+    setIsDatasetLoading(true);
+    try {
+      setData(await loadDataset(id));
+      activateDataset(id);
+    } catch (error) {
+      console.error('Fehler beim Laden des Datensatzes:', error);
+      alert('Der Datensatz konnte nicht geladen werden.');
+    }
+    setIsDatasetLoading(false);
+  };
+
+  // Zuletzt geöffneten Datensatz nach dem Neuladen der Seite wiederherstellen
+  useEffect(() => {
+    const restoreLibrary = async () => {
+      try {
+        const storedDatasets = await listDatasets();
+        setDatasets(storedDatasets);
+        const lastId = getActiveDatasetId();
+        if (lastId && storedDatasets.some(dataset => dataset.id === lastId)) {
+          setIsDatasetLoading(true);
+          setData(await loadDataset(lastId));
+          setActiveDatasetId(lastId);
+        }
+      } catch (error) {
+        console.error('Fehler beim Laden der gespeicherten Datensätze:', error);
+      }
+      setIsDatasetLoading(false);
+    };
+    restoreLibrary();
+  }, []);
+
+  const handleDataLoaded = async (importedData: BookingData[], importInfo: ImportInfo) => {
+    const anonymizeOnImport = anonymization.applyOnImport && isAnonymizationEnabled(anonymization);
+    const loadedData = anonymizeOnImport ? anonymizeBookings(importedData, anonymization) : importedData;
+    setData(loadedData);
+    try {
+      if (importInfo.mode !== 'replace' && activeDatasetId) {
+        await updateDataset(activeDatasetId, loadedData, importInfo.sourceFiles, anonymizeOnImport);
+      } else {
+        const [firstFile, ...otherFiles] = importInfo.sourceFiles;
+        const name = otherFiles.length > 0 ? `${firstFile} (+${otherFiles.length})` : firstFile;
+        const meta = await saveDataset(name, importInfo.sourceFiles, loadedData, anonymizeOnImport);
+        activateDataset(meta.id);
+      }
+      setDatasets(await listDatasets());
+    } catch (error) {
+      console.error('Fehler beim Speichern des Datensatzes:', error);
+      alert('Der Datensatz konnte nicht lokal gespeichert werden.');
+    }
+  };
+
+  const handleRenameDataset = async (id: string, name: string) => {
+    try {
+      await renameDataset(id, name);
+      setDatasets(await listDatasets());
+    } catch (error) {
+      console.error('Fehler beim Umbenennen des Datensatzes:', error);
+      alert('Der Datensatz konnte nicht umbenannt werden.');
+    }
+  };
+
+  const handleDeleteDataset = async (id: string) => {
+    try {
+      await deleteDataset(id);
+      if (id === activeDatasetId) {
+        activateDataset(null);
+        setData([]);
+      }
+      setDatasets(await listDatasets());
+    } catch (error) {
+      console.error('Fehler beim Löschen des Datensatzes:', error);
+      alert('Der Datensatz konnte nicht gelöscht werden.');
+    }
+  };
 
   const uniqueRegions = useMemo(() => {
     const regions = new Set<string>();
-    data.forEach(booking => {
+    displayData.forEach(booking => {
       if (booking.region) {
         regions.add(booking.region);
       }
     });
     return Array.from(regions).sort();
-  }, [data]);
-
-  const filteredData = useMemo(() => {
-    if (isYearComparison) {
-      return data.filter(booking => {
-        try {
-          const bookingYear = new Date(booking.arrivalDate).getFullYear();
-          const matchesYear = bookingYear === selectedYear1;
-          const matchesRegion = !selectedRegion || booking.region === selectedRegion;
-          return matchesYear && matchesRegion;
-        } catch (error) {
-          console.error('Fehler beim Filtern der Buchung:', error);
-          return false;
+  }, [displayData]);
+
+  // Kohorten und Buchungsstand bauen den Bestand selbst aus Buchungs- und Stornodatum auf und ignorieren den Zeitraumfilter
+  const regionData = useMemo(
+    () => displayData.filter(booking => matchesRegion(booking, selectedRegion) && matchesArea(booking, areaFilter)),
+    [displayData, selectedRegion, areaFilter]
+  );
+
+  // Zeitraum und Region ohne Kartenauswahl, damit die Karte nach einem Klick alle Gebiete zeigt
+  const periodData = useMemo(() => {
+    return displayData.filter((booking) => {
+      try {
+        const basisDate = getBasisDate(booking, dateBasis);
+        if (!basisDate || !matchesRegion(booking, selectedRegion)) return false;
+
+        if (isYearComparison) {
+          return basisDate.getFullYear() === selectedYear1;
         }
-      });
-    } else {
-      return data.filter((booking) => {
-        try {
-          let isInDateRange = true;
-          let isInRegion = true;
-
-          if (dateRange.start && dateRange.end) {
-            const bookingDate = new Date(booking.arrivalDate);
-            isInDateRange = isWithinInterval(bookingDate, {
-              start: startOfDay(dateRange.start),
-              end: endOfDay(dateRange.end),
-            });
-          }
-
-          if (selectedRegion !== '') {
-            isInRegion = booking.region === selectedRegion;
-          }
-
-          return isInDateRange && isInRegion;
-        } catch (error) {
-          console.error('Fehler beim Filtern der Buchung:', error);
-          return false;
+
+        if (dateRange.start && dateRange.end) {
+          return isWithinInterval(basisDate, {
+            start: startOfDay(dateRange.start),
+            end: endOfDay(dateRange.end),
+          });
         }
-      });
-    }
-  }, [data, isYearComparison, selectedYear1, dateRange, selectedRegion]);
+
+        return true;
+      } catch (error) {
+        console.error('Fehler beim Filtern der Buchung:', error);
+        return false;
+      }
+    });
+  }, [displayData, isYearComparison, selectedYear1, dateRange, selectedRegion, dateBasis]);
+
+  const filteredData = useMemo(
+    () => periodData.filter(booking => matchesArea(booking, areaFilter)),
+    [periodData, areaFilter]
+  );
 
   const comparisonData = useMemo(() => {
     if (!isYearComparison) return undefined;
-    return data.filter(booking => {
+    return displayData.filter(booking => {
       try {
-        const bookingYear = new Date(booking.arrivalDate).getFullYear();
-        const matchesYear = bookingYear === selectedYear2;
-        const matchesRegion = !selectedRegion || booking.region === selectedRegion;
-        return matchesYear && matchesRegion;
+        const basisDate = getBasisDate(booking, dateBasis);
+        return basisDate?.getFullYear() === selectedYear2 && matchesRegion(booking, selectedRegion) && matchesArea(booking, areaFilter);
       } catch (error) {
         console.error('Fehler beim Filtern der Vergleichsbuchung:', error);
         return false;
       }
     });
-  }, [data, selectedYear2, isYearComparison, selectedRegion]);
+  }, [displayData, selectedYear2, isYearComparison, selectedRegion, dateBasis, areaFilter]);
+
+  // Bei Verteilung nach Aufenthalt zählen auch Buchungen, deren Aufenthalt nur teilweise im Jahr liegt
+  const getStayYearData = (year: number) => {
+    const yearStart = startOfYear(new Date(year, 0, 1));
+    const yearEnd = endOfYear(yearStart);
+    return regionData.filter(booking => overlapsStay(booking, yearStart, yearEnd));
+  };
+
+  // Die Prognose gilt je Anreisemonat und passt nur zur Monatstabelle nach Anreisedatum
+  const yearForecast = useMemo(() => {
+    if (!isYearComparison || dateBasis !== 'arrivalDate' || revenueAllocation !== 'basis') return undefined;
+    const observationDate = getObservationDate(regionData);
+    return observationDate ? forecastMonths(regionData, endOfDay(observationDate), 12) : undefined;
+  }, [isYearComparison, dateBasis, revenueAllocation, regionData]);
+
+  const anomalies = useMemo(
+    () => detectAnomalies(filteredData, dateBasis, anomalyThreshold),
+    [filteredData, dateBasis, anomalyThreshold]
+  );
+
+  const tableData = useMemo(
+    () => (focusedAnomaly ? getAnomalyBookings(filteredData, focusedAnomaly, dateBasis) : filteredData),
+    [filteredData, focusedAnomaly, dateBasis]
+  );
+
+  const handleAnomalySelect = (anomaly: Anomaly) => {
+    setFocusedAnomaly(anomaly);
+    dataTableRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
 
   const handleYearChange = (year1: number, year2: number) => {
     setSelectedYear1(year1);
@@ -94,7 +287,32 @@ export function DashboardLayout() {
     <div className="min-h-screen bg-gray-100">
       <div className="py-6">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <CSVUploader onDataLoaded={setData} />
+          <CSVUploader
+            currentData={data}
+            incomingAnonymization={incomingAnonymization}
+            onDataLoaded={handleDataLoaded}
+          />
+
+          <div className="mt-8">
+            <DatasetLibrary
+              datasets={datasets}
+              activeDatasetId={activeDatasetId}
+              isLoading={isDatasetLoading}
+              onOpen={openDataset}
+              onRename={handleRenameDataset}
+              onDelete={handleDeleteDataset}
+            />
+          </div>
+
+          <div className="mt-8">
+            <AnonymizationPanel settings={anonymization} onChange={handleAnonymizationChange} />
+          </div>
+
+          {datasets.length >= 2 && (
+            <div className="mt-8">
+              <DatasetDiffView datasets={datasets} anonymization={anonymization} />
+            </div>
+          )}
 
           <div className="mt-8">
             <FilterToggle
@@ -103,37 +321,88 @@ export function DashboardLayout() {
             />
           </div>
 
+          <div className="mt-4">
+            <DateBasisPicker value={dateBasis} onChange={handleDateBasisChange} />
+          </div>
+
           {isYearComparison ? (
-            <YearComparisonPicker
-              year1={selectedYear1}
-              year2={selectedYear2}
-              onYearChange={(y1, y2) => {
-                setSelectedYear1(y1);
-                setSelectedYear2(y2);
-              }}
-            />
+            <>
+              <YearComparisonPicker
+                year1={selectedYear1}
+                year2={selectedYear2}
+                onYearChange={(y1, y2) => {
+                  setSelectedYear1(y1);
+                  setSelectedYear2(y2);
+                }}
+              />
+            </>
           ) : (
             <DateRangePicker
-              startDate={null}
-              endDate={null}
-              onDateChange={() => {}}
-              data={data}
+              startDate={dateRange.start}
+              endDate={dateRange.end}
+              onDateChange={(start, end) => setDateRange({ start, end })}
+              dateBasis={dateBasis}
+              data={displayData}
               selectedRegion={selectedRegion}
               onRegionChange={setSelectedRegion}
             />
           )}
 
+          <AnonymizationBadge
+            settings={anonymization}
+            isDatasetAnonymized={activeDataset?.anonymized ?? false}
+          />
+
+          {areaFilter && (
+            <div className="mt-4 flex items-center justify-between rounded-md bg-indigo-50 px-4 py-2 text-sm text-indigo-800">
+              <span>
+                Gefiltert nach Karte: {MAP_LAYERS.find(option => option.value === areaFilter.layer)?.label} – {areaFilter.key}
+              </span>
+              <button onClick={() => setAreaFilter(null)} className="text-indigo-600 hover:text-indigo-800">
+                Kartenfilter aufheben
+              </button>
+            </div>
+          )}
+
           <KPICards
             data={filteredData}
             comparisonData={comparisonData}
+            customMetrics={customMetrics}
           />
 
+          <div className="mt-8">
+            <CustomMetricsEditor metrics={customMetrics} onChange={handleCustomMetricsChange} data={filteredData} />
+          </div>
+
           <div className="mt-8 grid grid-cols-1 gap-6">
+            {isYearComparison && comparisonData && (
+              <YearComparisonTable
+                data={revenueAllocation === 'stay' ? getStayYearData(selectedYear1) : filteredData}
+                comparisonData={revenueAllocation === 'stay' ? getStayYearData(selectedYear2) : comparisonData}
+                year1={selectedYear1}
+                year2={selectedYear2}
+                allocation={revenueAllocation}
+                onAllocationChange={setRevenueAllocation}
+                dateBasis={dateBasis}
+                forecast={yearForecast}
+              />
+            )}
+
+            <TrendsChart data={filteredData} dateBasis={dateBasis} anomalies={anomalies} />
+
+            <AnomalyList
+              anomalies={anomalies}
+              threshold={anomalyThreshold}
+              onThresholdChange={setAnomalyThreshold}
+              onSelect={handleAnomalySelect}
+            />
+
             <TopAccommodationsTable
               data={filteredData}
               comparisonData={comparisonData}
               year1={selectedYear1}
               year2={selectedYear2}
+              customMetrics={customMetrics}
             />
 
             <TopCitiesTable
@@ -141,13 +410,43 @@ export function DashboardLayout() {
               comparisonData={comparisonData}
               year1={selectedYear1}
               year2={selectedYear2}
+              customMetrics={customMetrics}
             />
 
-            <DataTable
+            <SourceMarketAnalysis data={filteredData} comparisonData={comparisonData} />
+
+            <AreaMap data={periodData} selectedArea={areaFilter} onAreaSelect={setAreaFilter} />
+
+            <LeadTimeAnalysis
+              data={filteredData}
+              comparisonData={comparisonData}
+              dateBasis={dateBasis}
+            />
+
+            <CancellationRateOverview
               data={filteredData}
               comparisonData={comparisonData}
             />
 
+            <CohortAnalysis data={regionData} />
+
+            <PaceReport data={regionData} />
+
+            <ForecastPanel data={regionData} />
+
+            <OccupancyCalendar data={filteredData} />
+
+            <PivotTable data={filteredData} dateBasis={dateBasis} customMetrics={customMetrics} />
+
+            <div ref={dataTableRef}>
+              <DataTable
+                data={tableData}
+                comparisonData={comparisonData}
+                focusLabel={focusedAnomaly ? `Auffälligkeit: ${describeAnomaly(focusedAnomaly)}` : undefined}
+                onClearFocus={() => setFocusedAnomaly(null)}
+              />
+            </div>
+
             <ExportTools
               data={filteredData}
               comparisonData={comparisonData}
@@ -14,9 +14,12 @@ import { BookingData } from '../../types/booking'
 
 interface DataTableProps {
   data: BookingData[]
+  // Hinweis auf eine aktive Einschränkung, z. B. die Buchungen hinter einer Auffälligkeit
+  focusLabel?: string
+  onClearFocus?: () => void
 }
 
-export function DataTable({ data }: DataTableProps) {
+export function DataTable({ data, focusLabel, onClearFocus }: DataTableProps) {
   const [globalFilter, setGlobalFilter] = useState('')
   const [sorting, setSorting] = useState<SortingState>([
     { id: 'bookingDate', desc: true } // Standardmäßig nach Buchungsdatum absteigend sortieren
@@ -143,7 +146,17 @@ export function DataTable({ data }: DataTableProps) {
 
   return (
     <div className="bg-white shadow rounded-lg overflow-hidden">
-      <div className="p-4">
+      <div className="p-4 space-y-2">
+        {focusLabel && (
+          <div className="flex items-center justify-between rounded-md bg-indigo-50 px-3 py-2 text-sm text-indigo-800">
+            <span>{focusLabel} ({data.length} Buchungen)</span>
+            {onClearFocus && (
+              <button onClick={onClearFocus} className="text-indigo-600 hover:text-indigo-800">
+                Alle Buchungen anzeigen
+              </button>
+            )}
+          </div>
+        )}
         <input
           type="text"
           value={globalFilter}
@@ -0,0 +1,338 @@
+import { useEffect, useMemo, useState } from 'react';
+import Papa from 'papaparse';
+import { saveAs } from 'file-saver';
+import { BookingData } from '../../types/booking';
+import { AnonymizationSettings } from '../../types/anonymization';
+import { DatasetMeta } from '../../types/dataset';
+import { getFieldLabel } from '../../utils/columnMapping';
+import { diffDatasets } from '../../utils/datasetDiff';
+import { effectiveCommission, effectiveRevenue } from '../../utils/metrics';
+import { loadDataset } from '../../utils/datasetStore';
+import { anonymizeBookings, describeAnonymization, getComparisonAnonymization } from '../../utils/anonymize';
+import { formatCurrency, formatDate, formatFieldValue, formatNumber } from '../../utils/formatters';
+
+interface DatasetDiffViewProps {
+  datasets: DatasetMeta[];
+  anonymization: AnonymizationSettings;
+}
+
+type DiffStatus = 'Neu' | 'Entfernt' | 'Geändert';
+
+interface DiffRow {
+  status: DiffStatus;
+  bookingCode: string;
+  serviceName: string;
+  arrivalDate: Date;
+  changes: { label: string; before: string; after: string }[];
+  revenueImpact: number;
+  commissionImpact: number;
+}
+
+const MAX_VISIBLE_ROWS = 500;
+
+const STATUS_COLORS: Record<DiffStatus, string> = {
+  Neu: 'bg-green-100 text-green-800',
+  Entfernt: 'bg-red-100 text-red-800',
+  Geändert: 'bg-yellow-100 text-yellow-800',
+};
+
+const saveCSV = (fields: string[], rows: (string | number)[][], fileName: string) => {
+  const csvContent = Papa.unparse({ fields, data: rows }, { delimiter: ';' });
+  saveAs(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), fileName);
+};
+
+export function DatasetDiffView({ datasets, anonymization }: DatasetDiffViewProps) {
+  const [baseId, setBaseId] = useState<string>(datasets[1]?.id ?? '');
+  const [compareId, setCompareId] = useState<string>(datasets[0]?.id ?? '');
+  const [baseData, setBaseData] = useState<BookingData[] | null>(null);
+  const [compareData, setCompareData] = useState<BookingData[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<DiffStatus | ''>('');
+  const [baseError, setBaseError] = useState(false);
+  const [compareError, setCompareError] = useState(false);
+
+  // Gelöschte Datensätze aus der Auswahl entfernen
+  useEffect(() => {
+    const ids = datasets.map(dataset => dataset.id);
+    if (!ids.includes(baseId)) setBaseId(ids[1] ?? '');
+    if (!ids.includes(compareId)) setCompareId(ids[0] ?? '');
+  }, [datasets, baseId, compareId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBaseData(null);
+    setBaseError(false);
+    if (baseId) {
+      loadDataset(baseId)
+        .then(data => !cancelled && setBaseData(data))
+        .catch((error) => {
+          console.error('Fehler beim Laden des Datensatzes:', error);
+          if (!cancelled) setBaseError(true);
+        });
+    }
+    return () => { cancelled = true; };
+  }, [baseId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCompareData(null);
+    setCompareError(false);
+    if (compareId) {
+      loadDataset(compareId)
+        .then(data => !cancelled && setCompareData(data))
+        .catch((error) => {
+          console.error('Fehler beim Laden des Datensatzes:', error);
+          if (!cancelled) setCompareError(true);
+        });
+    }
+    return () => { cancelled = true; };
+  }, [compareId]);
+
+  // Beide Seiten wie Anzeige und Export anonymisieren; auch die CSV-Exporte enthalten so keine Rohdaten
+  const settings = useMemo(() => {
+    const includesAnonymized = datasets.some(dataset => (dataset.id === baseId || dataset.id === compareId) && dataset.anonymized);
+    return getComparisonAnonymization(anonymization, includesAnonymized);
+  }, [datasets, baseId, compareId, anonymization]);
+
+  const diff = useMemo(() => {
+    if (!baseData || !compareData) return null;
+    return diffDatasets(anonymizeBookings(baseData, settings), anonymizeBookings(compareData, settings));
+  }, [baseData, compareData, settings]);
+
+  const anonymizationNote = describeAnonymization(settings);
+
+  const rows = useMemo<DiffRow[]>(() => {
+    if (!diff) return [];
+    return [
+      ...diff.added.map((booking) => ({
+        status: 'Neu' as const,
+        bookingCode: booking.bookingCode,
+        serviceName: booking.serviceName,
+        arrivalDate: booking.arrivalDate,
+        changes: [],
+        revenueImpact: effectiveRevenue(booking),
+        commissionImpact: effectiveCommission(booking),
+      })),
+      ...diff.removed.map((booking) => ({
+        status: 'Entfernt' as const,
+        bookingCode: booking.bookingCode,
+        serviceName: booking.serviceName,
+        arrivalDate: booking.arrivalDate,
+        changes: [],
+        revenueImpact: -effectiveRevenue(booking),
+        commissionImpact: -effectiveCommission(booking),
+      })),
+      ...diff.modified.map((modification) => ({
+        status: 'Geändert' as const,
+        bookingCode: modification.bookingCode,
+        serviceName: modification.after.serviceName,
+        arrivalDate: modification.after.arrivalDate,
+        changes: modification.changes.map(change => ({
+          label: getFieldLabel(change.field),
+          before: formatFieldValue(change.field, change.before),
+          after: formatFieldValue(change.field, change.after),
+        })),
+        revenueImpact: modification.revenueImpact,
+        commissionImpact: modification.commissionImpact,
+      })),
+    ];
+  }, [diff]);
+
+  const visibleRows = statusFilter ? rows.filter(row => row.status === statusFilter) : rows;
+
+  const handleExportChanges = () => {
+    try {
+      const exportRows = visibleRows.flatMap((row) => {
+        const base = [row.status, row.bookingCode, row.serviceName, formatDate(row.arrivalDate)];
+        const changes = row.changes.length > 0 ? row.changes : [{ label: '', before: '', after: '' }];
+        return changes.map((change, index) => [
+          ...base,
+          change.label,
+          change.before,
+          change.after,
+          index === 0 ? row.revenueImpact.toString().replace('.', ',') : '',
+          index === 0 ? row.commissionImpact.toString().replace('.', ',') : '',
+        ]);
+      });
+      saveCSV(
+        ['Status', 'Buchungscode', 'Unterkunft', 'Anreise', 'Feld', 'Vorher', 'Nachher', 'Umsatzwirkung', 'Provisionswirkung'],
+        exportRows,
+        'datensatz-vergleich.csv'
+      );
+    } catch (error) {
+      console.error('Fehler beim CSV-Export:', error);
+      alert('Fehler beim Erstellen der CSV-Datei. Bitte versuchen Sie es erneut.');
+    }
+  };
+
+  const handleExportSummary = () => {
+    if (!diff) return;
+    try {
+      const baseName = datasets.find(d => d.id === baseId)?.name ?? '';
+      const compareName = datasets.find(d => d.id === compareId)?.name ?? '';
+      const { summary } = diff;
+      saveCSV(
+        ['Kennzahl', 'Wert'],
+        [
+          ['Basis', baseName],
+          ['Vergleich', compareName],
+          ['Neue Buchungen', summary.added],
+          ['Entfernte Buchungen', summary.removed],
+          ['Geänderte Buchungen', summary.modified],
+          ['Davon neu storniert', summary.newlyCancelled],
+          ['Unverändert', summary.unchanged],
+          ['Umsatz neuer Buchungen', summary.addedRevenue.toString().replace('.', ',')],
+          ['Umsatz entfernter Buchungen', summary.removedRevenue.toString().replace('.', ',')],
+          ['Umsatzwirkung geänderter Buchungen', summary.modifiedRevenueImpact.toString().replace('.', ',')],
+          ['Netto-Umsatzwirkung', summary.revenueImpact.toString().replace('.', ',')],
+          ['Netto-Provisionswirkung', summary.commissionImpact.toString().replace('.', ',')],
+        ],
+        'datensatz-vergleich-zusammenfassung.csv'
+      );
+    } catch (error) {
+      console.error('Fehler beim CSV-Export:', error);
+      alert('Fehler beim Erstellen der CSV-Datei. Bitte versuchen Sie es erneut.');
+    }
+  };
+
+  const impactColor = (value: number) => (value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-500');
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Datensätze vergleichen</h2>
+          {anonymizationNote.length > 0 && (
+            <p className="text-sm text-gray-500">Verglichen wird anonymisiert: {anonymizationNote.join(', ')}.</p>
+          )}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            Basis
+            <select
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+            >
+              {datasets.map((dataset) => (
+                <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Vergleich
+            <select
+              value={compareId}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="rounded-lg border border-gray-300 bg-gray-50 p-2 text-sm text-gray-900"
+            >
+              {datasets.map((dataset) => (
+                <option key={dataset.id} value={dataset.id}>{dataset.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {baseError || compareError ? (
+        <p className="p-4 text-sm text-red-600">Der Datensatz konnte nicht geladen werden.</p>
+      ) : !diff ? (
+        <p className="p-4 text-sm text-gray-500">Lade Datensätze...</p>
+      ) : (
+        <>
+          <div className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {(['Neu', 'Entfernt', 'Geändert'] as DiffStatus[]).map((status) => {
+              const count = status === 'Neu' ? diff.summary.added : status === 'Entfernt' ? diff.summary.removed : diff.summary.modified;
+              return (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(statusFilter === status ? '' : status)}
+                  className={`rounded-lg p-3 text-left ${statusFilter === status ? 'ring-2 ring-indigo-500' : ''} ${STATUS_COLORS[status]}`}
+                >
+                  <div className="text-xs font-medium">{status}</div>
+                  <div className="text-xl font-semibold">{formatNumber(count)}</div>
+                </button>
+              );
+            })}
+            <div className="rounded-lg p-3 bg-gray-50">
+              <div className="text-xs font-medium text-gray-500">Neu storniert</div>
+              <div className="text-xl font-semibold text-gray-900">{formatNumber(diff.summary.newlyCancelled)}</div>
+            </div>
+            <div className="rounded-lg p-3 bg-gray-50">
+              <div className="text-xs font-medium text-gray-500">Umsatzwirkung</div>
+              <div className={`text-xl font-semibold ${impactColor(diff.summary.revenueImpact)}`}>
+                {formatCurrency(diff.summary.revenueImpact)}
+              </div>
+            </div>
+            <div className="rounded-lg p-3 bg-gray-50">
+              <div className="text-xs font-medium text-gray-500">Provisionswirkung</div>
+              <div className={`text-xl font-semibold ${impactColor(diff.summary.commissionImpact)}`}>
+                {formatCurrency(diff.summary.commissionImpact)}
+              </div>
+            </div>
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            <button
+              onClick={handleExportChanges}
+              className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+            >
+              Änderungen als CSV
+            </button>
+            <button
+              onClick={handleExportSummary}
+              className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+            >
+              Zusammenfassung als CSV
+            </button>
+          </div>
+
+          <div className="overflow-x-auto max-h-[32rem]">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungscode</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unterkunft</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Anreise</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Änderungen</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Umsatz</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Provision</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleRows.slice(0, MAX_VISIBLE_ROWS).map((row) => (
+                  <tr key={`${row.status}-${row.bookingCode}`}>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[row.status]}`}>{row.status}</span>
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">{row.bookingCode}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">{row.serviceName}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">{formatDate(row.arrivalDate)}</td>
+                    <td className="px-6 py-2 text-sm text-gray-500">
+                      {row.changes.map((change) => (
+                        <div key={change.label}>
+                          <span className="font-medium text-gray-700">{change.label}:</span> {change.before} → {change.after}
+                        </div>
+                      ))}
+                    </td>
+                    <td className={`px-6 py-2 whitespace-nowrap text-sm text-right ${impactColor(row.revenueImpact)}`}>
+                      {formatCurrency(row.revenueImpact)}
+                    </td>
+                    <td className={`px-6 py-2 whitespace-nowrap text-sm text-right ${impactColor(row.commissionImpact)}`}>
+                      {formatCurrency(row.commissionImpact)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleRows.length > MAX_VISIBLE_ROWS && (
+              <p className="px-6 py-3 text-sm text-gray-500">
+                {formatNumber(visibleRows.length - MAX_VISIBLE_ROWS)} weitere Zeilen im CSV-Export
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
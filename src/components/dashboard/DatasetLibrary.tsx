@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { DatasetMeta } from '../../types/dataset';
+import { formatNumber } from '../../utils/formatters';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+
+interface DatasetLibraryProps {
+  datasets: DatasetMeta[];
+  activeDatasetId: string | null;
+  isLoading: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function DatasetLibrary({
+  datasets,
+  activeDatasetId,
+  isLoading,
+  onOpen,
+  onRename,
+  onDelete,
+}: DatasetLibraryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const startRename = (dataset: DatasetMeta) => {
+    setEditingId(dataset.id);
+    setEditingName(dataset.name);
+  };
+
+  const submitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (dataset: DatasetMeta) => {
+    if (confirm(`Datensatz „${dataset.name}“ wirklich löschen?`)) {
+      onDelete(dataset.id);
+    }
+  };
+
+  if (datasets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">Gespeicherte Datensätze</h2>
+        {isLoading && <span className="text-sm text-gray-500">Lade Datensatz...</span>}
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {datasets.map((dataset) => {
+          const isActive = dataset.id === activeDatasetId;
+          return (
+            <li
+              key={dataset.id}
+              className={`px-4 py-3 flex flex-col md:flex-row md:items-center gap-2 ${isActive ? 'bg-indigo-50' : ''}`}
+            >
+              <div className="flex-1 min-w-0">
+                {editingId === dataset.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={submitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full rounded-md border border-gray-300 p-1 text-sm"
+                  />
+                ) : (
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {dataset.name}
+                    {isActive && <span className="ml-2 text-xs text-indigo-600">geöffnet</span>}
+                    {dataset.anonymized && <span className="ml-2 text-xs text-amber-700">anonymisiert</span>}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500 truncate">
+                  {format(new Date(dataset.importedAt), 'dd.MM.yyyy HH:mm', { locale: de })} ·{' '}
+                  {dataset.updatedAt && `geändert ${format(new Date(dataset.updatedAt), 'dd.MM.yyyy HH:mm', { locale: de })} · `}
+                  {formatNumber(dataset.rowCount)} Buchungen · {dataset.sourceFiles.join(', ')}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onOpen(dataset.id)}
+                  disabled={isActive || isLoading}
+                  className="rounded-lg bg-indigo-600 px-3 py-1 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Öffnen
+                </button>
+                <button
+                  onClick={() => startRename(dataset)}
+                  className="rounded-lg bg-gray-100 px-3 py-1 text-sm text-gray-700 hover:bg-gray-200"
+                >
+                  Umbenennen
+                </button>
+                <button
+                  onClick={() => handleDelete(dataset)}
+                  className="rounded-lg bg-gray-100 px-3 py-1 text-sm text-red-600 hover:bg-red-50"
+                >
+                  Löschen
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { DATE_BASIS_OPTIONS, DateBasis } from '../../utils/dateBasis';
+
+interface DateBasisPickerProps {
+  value: DateBasis;
+  onChange: (basis: DateBasis) => void;
+}
+
+export function DateBasisPicker({ value, onChange }: DateBasisPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium text-gray-700">Auswerten nach</span>
+      <div className="inline-flex rounded-md shadow-sm" role="group">
+        {DATE_BASIS_OPTIONS.map((option, index) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            className={`px-3 py-1.5 text-sm font-medium border border-gray-300 ${
+              index === 0 ? 'rounded-l-md' : '-ml-px'
+            } ${index === DATE_BASIS_OPTIONS.length - 1 ? 'rounded-r-md' : ''} ${
+              value === option.value ? 'bg-blue-600 text-white border-blue-600 z-10' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
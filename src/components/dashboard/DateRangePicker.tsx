@@ -5,11 +5,13 @@ import { startOfDay, endOfDay } from 'date-fns';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import { de } from 'date-fns/locale';
+import { DateBasis, getBasisDate } from '../../utils/dateBasis';
 
 interface DateRangePickerProps {
   startDate: Date | null;
   endDate: Date | null;
   onDateChange: (start: Date | null, end: Date | null) => void;
+  dateBasis: DateBasis;
   data: BookingData[];
   selectedRegion: string;
   onRegionChange: (region: string) => void;
@@ -19,6 +21,7 @@ export function DateRangePicker({
   startDate,
   endDate,
   onDateChange,
+  dateBasis,
   data,
   selectedRegion,
   onRegionChange,
@@ -26,16 +29,22 @@ export function DateRangePicker({
   const regions = Array.from(new Set(data.map(booking => booking.region))).sort();
   regions.unshift('Alle Regionen');
 
-  // Berechne min/max Datum aus den Daten
+  // Berechne min/max Datum aus den Daten der gewählten Datumsbasis
+  const basisTimes = React.useMemo(() => {
+    return data
+      .map(booking => getBasisDate(booking, dateBasis)?.getTime())
+      .filter((time): time is number => time !== undefined);
+  }, [data, dateBasis]);
+
   const minDate = React.useMemo(() => {
-    if (!data || data.length === 0) return undefined;
-    return startOfDay(new Date(Math.min(...data.map(booking => new Date(booking.arrivalDate).getTime()))));
-  }, [data]);
+    if (basisTimes.length === 0) return undefined;
+    return startOfDay(new Date(basisTimes.reduce((min, time) => Math.min(min, time))));
+  }, [basisTimes]);
 
   const maxDate = React.useMemo(() => {
-    if (!data || data.length === 0) return undefined;
-    return endOfDay(new Date(Math.max(...data.map(booking => new Date(booking.arrivalDate).getTime()))));
-  }, [data]);
+    if (basisTimes.length === 0) return undefined;
+    return endOfDay(new Date(basisTimes.reduce((max, time) => Math.max(max, time))));
+  }, [basisTimes]);
 
   return (
     <div className="bg-white rounded-lg p-4">
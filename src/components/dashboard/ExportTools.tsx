@@ -5,6 +5,7 @@ import { saveAs } from 'file-saver'
 import { BookingData } from '../../types/booking'
 import { format } from 'date-fns'
 import { de } from 'date-fns/locale'
+import { BookingExportFormat, serializeBookings } from '../../utils/bookingSerialization'
 
 interface ExportToolsProps {
   data: BookingData[]
@@ -148,8 +149,21 @@ export function ExportTools({ data }: ExportToolsProps) {
     }
   }
 
+  const exportToJSON = (exportFormat: BookingExportFormat) => {
+    try {
+      // ISO-Datumswerte und echte Zahlen, damit andere Werkzeuge die Daten ohne Umwandlung lesen können
+      const content = serializeBookings(data, exportFormat)
+      const type = exportFormat === 'ndjson' ? 'application/x-ndjson' : 'application/json'
+      const blob = new Blob([content], { type: `${type};charset=utf-8;` })
+      saveAs(blob, `buchungsdaten.${exportFormat}`)
+    } catch (error) {
+      console.error('Fehler beim JSON-Export:', error)
+      alert('Fehler beim Erstellen der JSON-Datei. Bitte versuchen Sie es erneut.')
+    }
+  }
+
   return (
-    <div className="flex gap-4">
+    <div className="flex flex-wrap gap-4">
       <button
         onClick={exportToPDF}
         disabled={isExporting}
@@ -189,6 +203,44 @@ export function ExportTools({ data }: ExportToolsProps) {
         </svg>
         Als CSV exportieren
       </button>
+      <button
+        onClick={() => exportToJSON('json')}
+        className="flex items-center px-4 py-2 text-sm text-white bg-primary rounded-lg hover:bg-primary/90 transition-colors"
+      >
+        <svg
+          className="w-4 h-4 mr-2"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"
+          />
+        </svg>
+        Als JSON exportieren
+      </button>
+      <button
+        onClick={() => exportToJSON('ndjson')}
+        className="flex items-center px-4 py-2 text-sm text-white bg-primary rounded-lg hover:bg-primary/90 transition-colors"
+      >
+        <svg
+          className="w-4 h-4 mr-2"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"
+          />
+        </svg>
+        Als NDJSON exportieren
+      </button>
     </div>
   )
 }
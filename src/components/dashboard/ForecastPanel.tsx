@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { endOfDay, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { BookingData } from '../../types/booking';
+import {
+  FORECAST_METRICS,
+  ForecastMetric,
+  ForecastTotals,
+  backtestForecast,
+  forecastMonths,
+  getFinalTotals,
+  summarizeBacktest,
+} from '../../utils/forecast';
+import { getObservationDate } from '../../utils/pace';
+import { formatCurrency, formatDate, formatNumber, formatPercentage } from '../../utils/formatters';
+
+interface ForecastPanelProps {
+  data: BookingData[];
+}
+
+const MONTHS_AHEAD = 12;
+const HISTORY_MONTHS = 12;
+const LEAD_OPTIONS = [30, 60, 90, 180];
+
+const formatMonth = (month: string) => format(parseISO(`${month}-01`), 'MMM yyyy', { locale: de });
+
+export function ForecastPanel({ data }: ForecastPanelProps) {
+  const [metric, setMetric] = useState<ForecastMetric>('revenue');
+  const [leadDays, setLeadDays] = useState(60);
+
+  const observationDate = useMemo(() => getObservationDate(data), [data]);
+
+  const forecast = useMemo(
+    () => (observationDate ? forecastMonths(data, endOfDay(observationDate), MONTHS_AHEAD) : []),
+    [data, observationDate]
+  );
+
+  const pastTotals = useMemo(() => {
+    if (!observationDate) return new Map<string, ForecastTotals>();
+    const firstMonth = startOfMonth(observationDate);
+    const months = Array.from({ length: HISTORY_MONTHS }, (_, index) => subMonths(firstMonth, HISTORY_MONTHS - index));
+    return getFinalTotals(data, months);
+  }, [data, observationDate]);
+
+  const backtest = useMemo(() => backtestForecast(data, metric, leadDays, HISTORY_MONTHS), [data, metric, leadDays]);
+  const summary = useMemo(() => summarizeBacktest(backtest), [backtest]);
+
+  const formatValue = metric === 'bookings' ? formatNumber : formatCurrency;
+
+  const chartData = useMemo(() => [
+    ...Array.from(pastTotals.entries()).map(([month, totals]) => ({
+      month: formatMonth(month),
+      actual: totals[metric],
+    })),
+    ...forecast.map(row => ({
+      month: formatMonth(row.month),
+      onTheBooks: row.onTheBooks[metric],
+      forecast: row.forecast[metric],
+      band: [row.lower[metric], row.upper[metric]],
+    })),
+  ], [pastTotals, forecast, metric]);
+
+  if (!observationDate) return null;
+
+  const hasHistory = forecast.some(row => row.samples > 0);
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Prognose nach Anreisemonat</h2>
+          <p className="text-sm text-gray-500">
+            Bestand zum {formatDate(observationDate)} plus der Zuwachs, den dieselben Monate früherer Jahre ab gleichem Abstand zur Anreise noch erhalten haben. Band: 10.–90. Perzentil.
+          </p>
+        </div>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as ForecastMetric)}
+          className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+        >
+          {FORECAST_METRICS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {!hasHistory ? (
+        <p className="p-4 text-sm text-gray-500">Für eine Prognose werden abgeschlossene Anreisemonate aus früheren Zeiträumen benötigt.</p>
+      ) : (
+        <div className="p-4">
+          <div className="h-[350px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(value: number) => formatValue(value)} tick={{ fontSize: 12 }} width={90} />
+                <Tooltip
+                  formatter={(value: number | number[], name: string) => [
+                    Array.isArray(value) ? `${formatValue(value[0])} – ${formatValue(value[1])}` : formatValue(value),
+                    name,
+                  ]}
+                />
+                <Legend />
+                <Area dataKey="band" name="Vertrauensband" fill="#bfdbfe" stroke="none" />
+                <Bar dataKey="actual" name="Ist" fill="#6B7280" />
+                <Bar dataKey="onTheBooks" name="Bestand" fill="#93c5fd" />
+                <Line dataKey="forecast" name="Prognose" stroke="#2563eb" strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <div className="p-4 border-t border-gray-200 overflow-x-auto">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-2">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Rückblick: Treffsicherheit für vergangene Monate</h3>
+            <p className="text-xs text-gray-500">
+              {summary.mape === null
+                ? 'Zu wenig Historie für einen Rückblick.'
+                : `Mittlere Abweichung ${formatPercentage(summary.mape)}, Ist im Band bei ${formatPercentage(summary.coverage ?? 0)} der Monate`}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Prognose
+            <select
+              value={leadDays}
+              onChange={(e) => setLeadDays(Number(e.target.value))}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            >
+              {LEAD_OPTIONS.map(option => (
+                <option key={option} value={option}>{option} Tage</option>
+              ))}
+            </select>
+            vor Monatsbeginn
+          </label>
+        </div>
+        {backtest.length > 0 && (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Monat</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stichtag</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Prognose</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Band</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ist</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Abweichung</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {backtest.map((row) => {
+                const inBand = row.actual >= row.lower && row.actual <= row.upper;
+                return (
+                  <tr key={row.month}>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{formatMonth(row.month)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">{formatDate(row.asOf)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatValue(row.forecast)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatValue(row.lower)} – {formatValue(row.upper)}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-900">{formatValue(row.actual)}</td>
+                    <td className={`px-6 py-2 whitespace-nowrap text-sm text-right ${inBand ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.actual === 0 ? '–' : `${row.forecast > row.actual ? '+' : ''}${formatPercentage((row.forecast - row.actual) / row.actual)}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
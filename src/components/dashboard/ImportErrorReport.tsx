@@ -0,0 +1,106 @@
+import Papa from 'papaparse';
+import { saveAs } from 'file-saver';
+import { ImportIssue } from '../../types/import';
+import { formatNumber } from '../../utils/formatters';
+
+interface ImportErrorReportProps {
+  fileName: string;
+  issues: ImportIssue[];
+  rowCount: number;
+  invalidRowCount: number;
+  onImportValid: () => void;
+  onAbort: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 200;
+
+export function ImportErrorReport({
+  fileName,
+  issues,
+  rowCount,
+  invalidRowCount,
+  onImportValid,
+  onAbort,
+}: ImportErrorReportProps) {
+  const validRowCount = rowCount - invalidRowCount;
+
+  const handleDownload = () => {
+    try {
+      const csvContent = Papa.unparse(
+        {
+          fields: ['Zeile', 'Spalte', 'Feld', 'Wert', 'Fehler'],
+          data: issues.map(issue => [issue.line, issue.column, issue.field, issue.value, issue.reason]),
+        },
+        { delimiter: ';' }
+      );
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      saveAs(blob, `fehlerbericht-${fileName.replace(/\.[^.]+$/, '')}.csv`);
+    } catch (error) {
+      console.error('Fehler beim Export des Fehlerberichts:', error);
+      alert('Fehler beim Erstellen des Fehlerberichts. Bitte versuchen Sie es erneut.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Fehler beim Import</h2>
+          <p className="text-sm text-gray-500">
+            {fileName} · {formatNumber(invalidRowCount)} von {formatNumber(rowCount)} Zeilen fehlerhaft
+          </p>
+        </div>
+        <button
+          onClick={handleDownload}
+          className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+        >
+          Fehlerbericht herunterladen
+        </button>
+      </div>
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Zeile</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spalte</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Wert</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fehler</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+              <tr key={`${issue.line}-${issue.field}-${index}`}>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-500">{issue.line}</td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">{issue.column || '–'}</td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm font-mono text-gray-700">{issue.value || '–'}</td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-red-600">{issue.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {issues.length > MAX_VISIBLE_ISSUES && (
+          <p className="px-6 py-3 text-sm text-gray-500">
+            {formatNumber(issues.length - MAX_VISIBLE_ISSUES)} weitere Fehler im Fehlerbericht
+          </p>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+        <button
+          onClick={onAbort}
+          className="rounded-lg bg-white border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Import abbrechen
+        </button>
+        <button
+          onClick={onImportValid}
+          disabled={validRowCount === 0}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Nur gültige Zeilen importieren ({formatNumber(validRowCount)})
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { FileMergeSummary } from '../../utils/mergeBookings';
+import { formatNumber } from '../../utils/formatters';
+
+interface ImportSummaryProps {
+  summaries: FileMergeSummary[];
+  totalRows: number;
+  onClose: () => void;
+}
+
+export function ImportSummary({ summaries, totalRows, onClose }: ImportSummaryProps) {
+  const totals = summaries.reduce(
+    (sum, summary) => ({
+      rows: sum.rows + summary.rows,
+      added: sum.added + summary.added,
+      updated: sum.updated + summary.updated,
+      skipped: sum.skipped + summary.skipped,
+    }),
+    { rows: 0, added: 0, updated: 0, skipped: 0 }
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Import abgeschlossen</h2>
+          <p className="text-sm text-gray-500">{formatNumber(totalRows)} Buchungen im Datensatz</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+        >
+          Schließen
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Datei</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Zeilen</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Neu</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aktualisiert</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Übersprungen</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {summaries.map((summary, index) => (
+              <tr key={`${summary.fileName}-${index}`}>
+                <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{summary.fileName}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-500">{formatNumber(summary.rows)}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-green-600">{formatNumber(summary.added)}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-indigo-600">{formatNumber(summary.updated)}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-500">{formatNumber(summary.skipped)}</td>
+              </tr>
+            ))}
+          </tbody>
+          {summaries.length > 1 && (
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td className="px-6 py-3 text-sm font-semibold text-gray-900">Gesamt</td>
+                <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">{formatNumber(totals.rows)}</td>
+                <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">{formatNumber(totals.added)}</td>
+                <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">{formatNumber(totals.updated)}</td>
+                <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">{formatNumber(totals.skipped)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
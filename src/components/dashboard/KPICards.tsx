@@ -1,60 +1,29 @@
 import { useMemo } from 'react';
 import { BookingData } from '../../types/booking';
-import { formatCurrency, formatPercentage } from '../../utils/formatters';
-import { CurrencyEuroIcon, BanknotesIcon, ClipboardDocumentListIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { formatCurrency, formatNights, formatNumber, formatPercentage } from '../../utils/formatters';
+import { calculateMetrics, relativeChange } from '../../utils/metrics';
+import { CustomMetric } from '../../types/customMetric';
+import { calculateCustomMetric, formatCustomMetric } from '../../utils/customMetrics';
 
 interface KPICardsProps {
   data: BookingData[];
   comparisonData?: BookingData[];
+  customMetrics?: CustomMetric[];
 }
 
-export function KPICards({ data, comparisonData }: KPICardsProps) {
-  const stats = useMemo(() => {
-    const totalBookings = data.length;
-    const cancelledBookings = data.filter(booking => booking.cancelled).length;
-    const totalRevenue = data.reduce((sum, booking) => 
-      sum + (booking.cancelled ? 0 : booking.totalPrice), 0);
-    const totalCommission = data.reduce((sum, booking) => 
-      sum + (booking.cancelled ? 0 : booking.commission), 0);
-    const cancellationRate = totalBookings > 0 ? (cancelledBookings / totalBookings) * 100 : 0;
-    const averageCommission = totalBookings > 0 ? totalCommission / (totalBookings - cancelledBookings) : 0;
-
-    return {
-      totalRevenue,
-      totalCommission,
-      totalBookings,
-      averageCommission,
-      cancelledBookings,
-      cancellationRate,
-    }
-  }, [data]);
+export function KPICards({ data, comparisonData, customMetrics = [] }: KPICardsProps) {
+  const stats = useMemo(() => calculateMetrics(data), [data]);
 
   const comparisonStats = useMemo(() => {
     if (!comparisonData) return undefined;
-
-    const totalBookings = comparisonData.length;
-    const cancelledBookings = comparisonData.filter(booking => booking.cancelled).length;
-    const totalRevenue = comparisonData.reduce((sum, booking) => 
-      sum + (booking.cancelled ? 0 : booking.totalPrice), 0);
-    const totalCommission = comparisonData.reduce((sum, booking) => 
-      sum + (booking.cancelled ? 0 : booking.commission), 0);
-    const cancellationRate = totalBookings > 0 ? (cancelledBookings / totalBookings) * 100 : 0;
-    const averageCommission = totalBookings > 0 ? totalCommission / (totalBookings - cancelledBookings) : 0;
-
-    return {
-      totalRevenue,
-      totalCommission,
-      totalBookings,
-      averageCommission,
-      cancelledBookings,
-      cancellationRate,
-    }
+    return calculateMetrics(comparisonData);
   }, [comparisonData]);
 
   const calculateChange = (current: number, previous?: number): string => {
-    if (!previous) return '';
-    const change = ((current - previous) / previous) * 100;
-    return change > 0 ? `+${change.toFixed(1)}%` : `${change.toFixed(1)}%`;
+    const change = relativeChange(current, previous);
+    if (change === null || !Number.isFinite(change)) return '';
+    const percent = change * 100;
+    return percent > 0 ? `+${percent.toFixed(1)}%` : `${percent.toFixed(1)}%`;
   };
 
   const getChangeColor = (current: number, previous?: number): string => {
@@ -62,14 +31,14 @@ export function KPICards({ data, comparisonData }: KPICardsProps) {
     return current >= previous ? 'text-green-600' : 'text-red-600';
   };
 
-  const KPICard = ({ 
-    title, 
-    value, 
+  const KPICard = ({
+    title,
+    value,
     comparisonValue,
     formatter = formatNumber,
-  }: { 
-    title: string; 
-    value: number; 
+  }: {
+    title: string;
+    value: number;
     comparisonValue?: number;
     formatter?: (value: number) => string;
   }) => (
@@ -95,20 +64,20 @@ export function KPICards({ data, comparisonData }: KPICardsProps) {
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       <KPICard
         title="Umsatz"
-        value={stats.totalRevenue}
-        comparisonValue={comparisonStats?.totalRevenue}
+        value={stats.revenue}
+        comparisonValue={comparisonStats?.revenue}
         formatter={formatCurrency}
       />
       <KPICard
         title="Provision"
-        value={stats.totalCommission}
-        comparisonValue={comparisonStats?.totalCommission}
+        value={stats.commission}
+        comparisonValue={comparisonStats?.commission}
         formatter={formatCurrency}
       />
       <KPICard
         title="Buchungen"
-        value={stats.totalBookings}
-        comparisonValue={comparisonStats?.totalBookings}
+        value={stats.bookings}
+        comparisonValue={comparisonStats?.bookings}
       />
       <KPICard
         title="Durchschnittliche Provision"
@@ -127,6 +96,32 @@ export function KPICards({ data, comparisonData }: KPICardsProps) {
         comparisonValue={comparisonStats?.cancellationRate}
         formatter={formatPercentage}
       />
+      <KPICard
+        title="Übernachtungen"
+        value={stats.roomNights}
+        comparisonValue={comparisonStats?.roomNights}
+      />
+      <KPICard
+        title="Ø Aufenthaltsdauer"
+        value={stats.averageLengthOfStay}
+        comparisonValue={comparisonStats?.averageLengthOfStay}
+        formatter={formatNights}
+      />
+      <KPICard
+        title="Umsatz pro Nacht (ADR)"
+        value={stats.revenuePerNight}
+        comparisonValue={comparisonStats?.revenuePerNight}
+        formatter={formatCurrency}
+      />
+      {customMetrics.map((metric) => (
+        <KPICard
+          key={metric.id}
+          title={metric.name}
+          value={calculateCustomMetric(metric, data)}
+          comparisonValue={comparisonData ? calculateCustomMetric(metric, comparisonData) : undefined}
+          formatter={(value) => formatCustomMetric(value, metric.format)}
+        />
+      ))}
     </div>
   );
 }
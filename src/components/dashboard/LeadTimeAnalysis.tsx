@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { BookingData } from '../../types/booking';
+import {
+  DEFAULT_LEAD_TIME_BOUNDARIES,
+  calculateLeadTimeByGroup,
+  calculateLeadTimeByYear,
+  createLeadTimeBuckets,
+  parseLeadTimeBoundaries,
+} from '../../utils/leadTime';
+import { formatDays, formatNumber, formatPercentage } from '../../utils/formatters';
+import { DEFAULT_DATE_BASIS, DateBasis, getBasisDate, getDateBasisLabel } from '../../utils/dateBasis';
+
+interface LeadTimeAnalysisProps {
+  data: BookingData[];
+  comparisonData?: BookingData[];
+  dateBasis?: DateBasis;
+}
+
+type LeadTimeDimension = 'region' | 'city' | 'accommodation';
+
+const DIMENSIONS: Record<LeadTimeDimension, { label: string; getKey: (booking: BookingData) => string }> = {
+  region: { label: 'Region', getKey: booking => booking.region || 'Unbekannt' },
+  city: { label: 'Stadt', getKey: booking => booking.serviceCity || 'Unbekannt' },
+  accommodation: { label: 'Unterkunft', getKey: booking => booking.serviceName || 'Unbekannt' },
+};
+
+const YEAR_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#6B7280'];
+
+// Bei sehr vielen Unterkünften nur die buchungsstärksten Gruppen anzeigen
+const MAX_GROUPS = 20;
+
+export function LeadTimeAnalysis({ data, comparisonData, dateBasis = DEFAULT_DATE_BASIS }: LeadTimeAnalysisProps) {
+  const [boundariesInput, setBoundariesInput] = useState(DEFAULT_LEAD_TIME_BOUNDARIES.join(', '));
+  const [dimension, setDimension] = useState<LeadTimeDimension>('region');
+
+  const buckets = useMemo(() => createLeadTimeBuckets(parseLeadTimeBoundaries(boundariesInput)), [boundariesInput]);
+
+  // Vergleichszeitraum einbeziehen, damit die Verschiebung zwischen den Jahren sichtbar wird
+  const yearStats = useMemo(
+    () => calculateLeadTimeByYear(
+      comparisonData ? [...data, ...comparisonData] : data,
+      buckets,
+      booking => getBasisDate(booking, dateBasis)
+    ),
+    [data, comparisonData, buckets, dateBasis]
+  );
+
+  const chartData = useMemo(() => {
+    return buckets.map((bucket, index) => {
+      const entry: Record<string, string | number> = { bucket: bucket.label };
+      yearStats.forEach((year) => {
+        entry[year.name] = year.histogram[index].share * 100;
+      });
+      return entry;
+    });
+  }, [buckets, yearStats]);
+
+  const groupStats = useMemo(
+    () => calculateLeadTimeByGroup(data, DIMENSIONS[dimension].getKey).slice(0, MAX_GROUPS),
+    [data, dimension]
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-lg font-semibold text-gray-800">Buchungsvorlauf</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Klassengrenzen (Tage)
+          <input
+            type="text"
+            value={boundariesInput}
+            onChange={(e) => setBoundariesInput(e.target.value)}
+            className="w-48 rounded-md border border-gray-300 px-2 py-1 text-sm"
+          />
+        </label>
+      </div>
+
+      {yearStats.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Keine nicht stornierten Buchungen im gewählten Zeitraum.</p>
+      ) : (
+        <>
+          <div className="p-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Anteil der Buchungen je Vorlaufklasse und Jahr ({getDateBasisLabel(dateBasis)})</h3>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="bucket" />
+                  <YAxis tickFormatter={(value) => `${value}%`} />
+                  <Tooltip formatter={(value: number) => formatPercentage(value / 100)} />
+                  <Legend />
+                  {yearStats.map((year, index) => (
+                    <Bar key={year.name} dataKey={year.name} fill={YEAR_COLORS[index % YEAR_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4 border-t border-gray-200">
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Entwicklung nach Jahr ({getDateBasisLabel(dateBasis)})</h3>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jahr</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungen</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Median</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Durchschnitt</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Veränderung Median</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {yearStats.map((year, index) => {
+                    const previous = index > 0 ? yearStats[index - 1] : undefined;
+                    const shift = previous ? year.medianLeadTime - previous.medianLeadTime : undefined;
+                    return (
+                      <tr key={year.name}>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{year.name}</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatNumber(year.bookings)}</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatDays(year.medianLeadTime)}</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatDays(year.averageLeadTime)}</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                          {shift === undefined ? '–' : `${shift > 0 ? '+' : ''}${formatDays(shift)}`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Median je {DIMENSIONS[dimension].label}</h3>
+                <select
+                  value={dimension}
+                  onChange={(e) => setDimension(e.target.value as LeadTimeDimension)}
+                  className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                >
+                  {(Object.keys(DIMENSIONS) as LeadTimeDimension[]).map((key) => (
+                    <option key={key} value={key}>{DIMENSIONS[key].label}</option>
+                  ))}
+                </select>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{DIMENSIONS[dimension].label}</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungen</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Median</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Durchschnitt</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {groupStats.map((group) => (
+                    <tr key={group.name}>
+                      <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{group.name}</td>
+                      <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatNumber(group.bookings)}</td>
+                      <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatDays(group.medianLeadTime)}</td>
+                      <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{formatDays(group.averageLeadTime)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
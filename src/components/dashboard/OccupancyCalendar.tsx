@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { format, getDaysInMonth, getDaysInYear, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { BookingData } from '../../types/booking';
+import { getOccupancyByDay } from '../../utils/stayAllocation';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+
+interface OccupancyCalendarProps {
+  data: BookingData[];
+}
+
+// Farbstufen von wenig bis stark belegt
+const HEAT_COLORS = ['bg-blue-100', 'bg-blue-200', 'bg-blue-400', 'bg-blue-600', 'bg-blue-800'];
+
+export function OccupancyCalendar({ data }: OccupancyCalendarProps) {
+  const accommodations = useMemo(() => {
+    const counts = new Map<string, number>();
+    data.forEach((booking) => {
+      if (!booking.cancelled && booking.serviceName) {
+        counts.set(booking.serviceName, (counts.get(booking.serviceName) ?? 0) + 1);
+      }
+    });
+    return Array.from(counts.keys()).sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0));
+  }, [data]);
+
+  const [selectedAccommodation, setSelectedAccommodation] = useState('');
+  const accommodation = accommodations.includes(selectedAccommodation) ? selectedAccommodation : accommodations[0] ?? '';
+
+  const occupancy = useMemo(
+    () => getOccupancyByDay(data.filter(booking => booking.serviceName === accommodation)),
+    [data, accommodation]
+  );
+
+  const years = useMemo(() => {
+    const set = new Set<number>();
+    occupancy.forEach((_, day) => set.add(Number(day.slice(0, 4))));
+    return Array.from(set).sort((a, b) => b - a);
+  }, [occupancy]);
+
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const year = selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[0];
+
+  const summary = useMemo(() => {
+    let bookedNights = 0;
+    let peakDay = '';
+    let peakRooms = 0;
+    occupancy.forEach((totals, day) => {
+      if (Number(day.slice(0, 4)) !== year) return;
+      bookedNights++;
+      if (totals.roomNights > peakRooms) {
+        peakRooms = totals.roomNights;
+        peakDay = day;
+      }
+    });
+    const daysInYear = year ? getDaysInYear(new Date(year, 0, 1)) : 0;
+    return { bookedNights, freeNights: daysInYear - bookedNights, peakDay, peakRooms };
+  }, [occupancy, year]);
+
+  const getColor = (rooms: number) => {
+    if (rooms === 0) return 'bg-gray-100';
+    const level = Math.ceil((rooms / summary.peakRooms) * HEAT_COLORS.length) - 1;
+    return HEAT_COLORS[Math.min(Math.max(level, 0), HEAT_COLORS.length - 1)];
+  };
+
+  if (accommodations.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-lg font-semibold text-gray-800">Belegungskalender</h2>
+        <div className="flex gap-2">
+          <select
+            value={accommodation}
+            onChange={(e) => setSelectedAccommodation(e.target.value)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {accommodations.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <select
+            value={year ?? ''}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {years.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {year === undefined ? (
+        <p className="p-4 text-sm text-gray-500">Für diese Unterkunft gibt es keine belegten Nächte.</p>
+      ) : (
+        <div className="p-4 overflow-x-auto">
+          <p className="mb-3 text-sm text-gray-500">
+            {formatNumber(summary.bookedNights)} belegte und {formatNumber(summary.freeNights)} freie Nächte
+            {summary.peakDay && ` · Spitze am ${format(parseISO(summary.peakDay), 'dd.MM.yyyy')} mit ${formatNumber(summary.peakRooms)} Buchungen`}
+          </p>
+          <table className="text-xs">
+            <tbody>
+              {Array.from({ length: 12 }, (_, month) => {
+                const monthStart = new Date(year, month, 1);
+                return (
+                  <tr key={month}>
+                    <td className="pr-2 text-gray-500 whitespace-nowrap">{format(monthStart, 'MMM', { locale: de })}</td>
+                    {Array.from({ length: getDaysInMonth(monthStart) }, (_, index) => {
+                      const day = format(new Date(year, month, index + 1), 'yyyy-MM-dd');
+                      const totals = occupancy.get(day);
+                      const rooms = totals?.roomNights ?? 0;
+                      return (
+                        <td key={day} className="p-px">
+                          <div
+                            className={`h-4 w-4 rounded-sm ${getColor(rooms)}`}
+                            title={
+                              totals
+                                ? `${format(new Date(year, month, index + 1), 'dd.MM.yyyy')}: ${formatNumber(rooms)} Buchungen, ${formatNumber(totals.guestNights)} Gäste, ${formatCurrency(totals.revenue)}`
+                                : `${format(new Date(year, month, index + 1), 'dd.MM.yyyy')}: frei`
+                            }
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
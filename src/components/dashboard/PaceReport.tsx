@@ -0,0 +1,125 @@
+import { useMemo, useState } from 'react';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { endOfDay, format, parse } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { BookingData } from '../../types/booking';
+import { PaceTotals, calculatePace, getObservationDate, getPaceGap } from '../../utils/pace';
+import { formatCurrency, formatNumber, formatPercentage } from '../../utils/formatters';
+
+interface PaceReportProps {
+  data: BookingData[];
+}
+
+const MONTH_OPTIONS = [6, 12, 18];
+
+type PaceValue = keyof PaceTotals;
+
+const VALUES: { key: PaceValue; label: string; formatter: (value: number) => string }[] = [
+  { key: 'revenue', label: 'Umsatz', formatter: formatCurrency },
+  { key: 'bookings', label: 'Buchungen', formatter: formatNumber },
+  { key: 'nights', label: 'Nächte', formatter: formatNumber },
+];
+
+export function PaceReport({ data }: PaceReportProps) {
+  const observationDate = useMemo(() => getObservationDate(data), [data]);
+  const [selectedAsOf, setSelectedAsOf] = useState<Date | null>(null);
+  const [monthsAhead, setMonthsAhead] = useState(12);
+
+  // Ohne Auswahl gilt der Stand der Daten, damit ältere Exporte sinnvoll ausgewertet werden
+  const asOf = selectedAsOf ?? observationDate;
+
+  const report = useMemo(
+    () => (asOf ? calculatePace(data, endOfDay(asOf), monthsAhead) : null),
+    [data, asOf, monthsAhead]
+  );
+
+  if (!report) return null;
+
+  const renderGap = (current: number, previous: number, formatter: (value: number) => string) => {
+    const gap = getPaceGap(current, previous);
+    const color = gap.absolute > 0 ? 'text-green-600' : gap.absolute < 0 ? 'text-red-600' : 'text-gray-500';
+    return (
+      <span className={color}>
+        {gap.absolute > 0 ? '+' : ''}{formatter(gap.absolute)}
+        {gap.relative !== null && ` (${gap.relative > 0 ? '+' : ''}${formatPercentage(gap.relative)})`}
+      </span>
+    );
+  };
+
+  const renderCells = (current: PaceTotals, previous: PaceTotals) =>
+    VALUES.map(({ key, formatter }) => [
+      <td key={`${key}-current`} className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{formatter(current[key])}</td>,
+      <td key={`${key}-previous`} className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">{formatter(previous[key])}</td>,
+      <td key={`${key}-gap`} className="px-4 py-2 whitespace-nowrap text-sm text-right">{renderGap(current[key], previous[key], formatter)}</td>,
+    ]);
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Buchungsstand im Vorjahresvergleich</h2>
+          <p className="text-sm text-gray-500">
+            Stand {format(report.asOf, 'dd.MM.yyyy')} gegenüber {format(report.previousAsOf, 'dd.MM.yyyy')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <span>Stichtag</span>
+          <DatePicker
+            selected={asOf}
+            onChange={(date: Date | null) => setSelectedAsOf(date)}
+            locale={de}
+            dateFormat="dd.MM.yyyy"
+            className="w-32 rounded-md border border-gray-300 px-2 py-1 text-sm"
+          />
+          <select
+            value={monthsAhead}
+            onChange={(e) => setMonthsAhead(Number(e.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {MONTH_OPTIONS.map(months => (
+              <option key={months} value={months}>{months} Monate</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th rowSpan={2} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Anreisemonat</th>
+              {VALUES.map(({ key, label }) => (
+                <th key={key} colSpan={3} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+              ))}
+            </tr>
+            <tr>
+              {VALUES.map(({ key }) => [
+                <th key={`${key}-current`} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aktuell</th>,
+                <th key={`${key}-previous`} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Vorjahr</th>,
+                <th key={`${key}-gap`} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Abstand</th>,
+              ])}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {report.rows.map(row => (
+              <tr key={row.month} className="hover:bg-gray-50">
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {format(parse(row.month, 'yyyy-MM', new Date()), 'MMMM yyyy', { locale: de })}
+                </td>
+                {renderCells(row.current, row.previous)}
+              </tr>
+            ))}
+            <tr className="bg-gray-100 font-semibold">
+              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">Gesamt</td>
+              {renderCells(report.current, report.previous)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="px-4 py-3 text-xs text-gray-500 border-t border-gray-200">
+        Bestand = bis zum Stichtag gebucht und zu diesem Zeitpunkt nicht storniert. Stornierungen ohne Stornodatum zählen nie zum Bestand.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useMemo, useState } from 'react';
+import { RawTable } from '../../types/import';
+import { parsePastedTable } from '../../utils/pasteImport';
+import { formatRawValue } from '../../utils/bookingConversion';
+import { formatNumber } from '../../utils/formatters';
+
+interface PasteImportProps {
+  onConfirm: (table: RawTable) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export function PasteImport({ onConfirm, onCancel }: PasteImportProps) {
+  const [text, setText] = useState('');
+  const table = useMemo(() => parsePastedTable(text), [text]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Daten einfügen</h2>
+        <p className="text-sm text-gray-500">
+          Zeilen samt Überschriften in Excel oder Google Sheets markieren, kopieren und hier einfügen.
+        </p>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={8}
+        autoFocus
+        placeholder="Buchungscode&#9;Buchungsdatum&#9;Anreise&#9;..."
+        className="block w-full rounded-lg border border-gray-300 bg-gray-50 p-2.5 font-mono text-xs text-gray-900 whitespace-pre"
+      />
+
+      {table.headers.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            {formatNumber(table.rows.length)} Zeilen · {formatNumber(table.headers.length)} Spalten erkannt
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {table.headers.map((header) => (
+                    <th
+                      key={header}
+                      className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index}>
+                    {table.headers.map((header) => (
+                      <td key={header} className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                        {formatRawValue(row[header])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="rounded-lg bg-white border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Abbrechen
+        </button>
+        <button
+          onClick={() => onConfirm(table)}
+          disabled={table.rows.length === 0}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Weiter
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import Papa from 'papaparse';
+import { saveAs } from 'file-saver';
+import { utils, writeFile } from 'xlsx';
+import { BookingData } from '../../types/booking';
+import { DateBasis } from '../../utils/dateBasis';
+import { CustomMetric } from '../../types/customMetric';
+import { formatCustomMetric } from '../../utils/customMetrics';
+import {
+  PIVOT_AGGREGATIONS,
+  PIVOT_DIMENSIONS,
+  PIVOT_METRICS,
+  PivotAggregation,
+  PivotConfig,
+  PivotDimension,
+  PivotMetric,
+  PivotSort,
+  buildPivot,
+  pivotToMatrix,
+} from '../../utils/pivot';
+import { formatCurrency, formatNumber, formatPercentage } from '../../utils/formatters';
+
+interface PivotTableProps {
+  data: BookingData[];
+  dateBasis: DateBasis;
+  customMetrics?: CustomMetric[];
+}
+
+// Große Pivot-Tabellen nur teilweise anzeigen; der Export enthält immer alle Zeilen
+const MAX_VISIBLE_ROWS = 1000;
+
+const SORT_OPTIONS: { value: PivotSort; label: string }[] = [
+  { value: 'total-desc', label: 'Gesamt absteigend' },
+  { value: 'total-asc', label: 'Gesamt aufsteigend' },
+  { value: 'label-asc', label: 'Bezeichnung A–Z' },
+  { value: 'label-desc', label: 'Bezeichnung Z–A' },
+];
+
+const selectClassName = 'rounded-md border border-gray-300 px-2 py-1 text-sm';
+const CUSTOM_PREFIX = 'custom:';
+
+export function PivotTable({ data, dateBasis, customMetrics = [] }: PivotTableProps) {
+  const [rowDimension, setRowDimension] = useState<PivotDimension>('region');
+  const [subRowDimension, setSubRowDimension] = useState<PivotDimension | ''>('');
+  const [columnDimension, setColumnDimension] = useState<PivotDimension | ''>('year');
+  const [metric, setMetric] = useState<PivotMetric>('revenue');
+  const [customMetricId, setCustomMetricId] = useState('');
+  const [aggregation, setAggregation] = useState<PivotAggregation>('sum');
+  const [sort, setSort] = useState<PivotSort>('total-desc');
+
+  const customMetric = customMetrics.find(entry => entry.id === customMetricId);
+
+  const handleMetricChange = (value: string) => {
+    if (value.startsWith(CUSTOM_PREFIX)) {
+      setCustomMetricId(value.slice(CUSTOM_PREFIX.length));
+    } else {
+      setCustomMetricId('');
+      setMetric(value as PivotMetric);
+    }
+  };
+
+  const config = useMemo<PivotConfig>(() => ({
+    rows: subRowDimension && subRowDimension !== rowDimension ? [rowDimension, subRowDimension] : [rowDimension],
+    columns: columnDimension ? [columnDimension] : [],
+    metric,
+    aggregation,
+    sort,
+    customMetric,
+  }), [rowDimension, subRowDimension, columnDimension, metric, aggregation, sort, customMetric]);
+
+  const result = useMemo(() => buildPivot(data, config, dateBasis), [data, config, dateBasis]);
+
+  const formatValue = (value: number | null) => {
+    if (value === null) return '–';
+    if (customMetric) return formatCustomMetric(value, customMetric.format);
+    if (aggregation === 'share') return formatPercentage(value);
+    if (aggregation !== 'count' && (metric === 'revenue' || metric === 'commission')) return formatCurrency(value);
+    return formatNumber(Math.round(value * 10) / 10);
+  };
+
+  const exportToCSV = () => {
+    try {
+      const [fields, ...rows] = pivotToMatrix(result, config);
+      const csvRows = rows.map(row => row.map(cell => (typeof cell === 'number' ? cell.toString().replace('.', ',') : cell)));
+      const csvContent = Papa.unparse({ fields: fields.map(String), data: csvRows }, { delimiter: ';' });
+      saveAs(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'pivot.csv');
+    } catch (error) {
+      console.error('Fehler beim CSV-Export:', error);
+      alert('Fehler beim Erstellen der CSV-Datei. Bitte versuchen Sie es erneut.');
+    }
+  };
+
+  const exportToXLSX = () => {
+    try {
+      const workbook = utils.book_new();
+      utils.book_append_sheet(workbook, utils.aoa_to_sheet(pivotToMatrix(result, config)), 'Pivot');
+      writeFile(workbook, 'pivot.xlsx');
+    } catch (error) {
+      console.error('Fehler beim Excel-Export:', error);
+      alert('Fehler beim Erstellen der Excel-Datei. Bitte versuchen Sie es erneut.');
+    }
+  };
+
+  const showColumns = config.columns.length > 0;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-lg font-semibold text-gray-800">Pivot-Tabelle</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={exportToCSV}
+            className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+          >
+            CSV
+          </button>
+          <button
+            onClick={exportToXLSX}
+            className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+          >
+            Excel
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 flex flex-wrap gap-4 text-sm text-gray-700 border-b border-gray-200">
+        <label className="flex items-center gap-2">
+          Zeilen
+          <select value={rowDimension} onChange={(e) => setRowDimension(e.target.value as PivotDimension)} className={selectClassName}>
+            {PIVOT_DIMENSIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Unterteilt nach
+          <select value={subRowDimension} onChange={(e) => setSubRowDimension(e.target.value as PivotDimension | '')} className={selectClassName}>
+            <option value="">–</option>
+            {PIVOT_DIMENSIONS.filter(option => option.value !== rowDimension).map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Spalten
+          <select value={columnDimension} onChange={(e) => setColumnDimension(e.target.value as PivotDimension | '')} className={selectClassName}>
+            <option value="">–</option>
+            {PIVOT_DIMENSIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Kennzahl
+          <select
+            value={customMetric ? `${CUSTOM_PREFIX}${customMetric.id}` : metric}
+            onChange={(e) => handleMetricChange(e.target.value)}
+            className={selectClassName}
+          >
+            {PIVOT_METRICS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+            {customMetrics.length > 0 && (
+              <optgroup label="Eigene Kennzahlen">
+                {customMetrics.map(entry => (
+                  <option key={entry.id} value={`${CUSTOM_PREFIX}${entry.id}`}>{entry.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Berechnung
+          <select
+            value={aggregation}
+            onChange={(e) => setAggregation(e.target.value as PivotAggregation)}
+            disabled={Boolean(customMetric)}
+            title={customMetric ? 'Eigene Kennzahlen werden über ihre Formel berechnet' : undefined}
+            className={`${selectClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+          >
+            {PIVOT_AGGREGATIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Sortierung
+          <select value={sort} onChange={(e) => setSort(e.target.value as PivotSort)} className={selectClassName}>
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto max-h-[600px]">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {config.rows.map(dimension => PIVOT_DIMENSIONS.find(option => option.value === dimension)?.label).join(' / ')}
+              </th>
+              {showColumns && result.columnKeys.map(columnKey => (
+                <th key={columnKey} className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {columnKey}
+                </th>
+              ))}
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gesamt</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.rows.slice(0, MAX_VISIBLE_ROWS).map((row) => (
+              <tr key={`${row.keys.join('\u0000')}-${row.isSubtotal}`} className={row.isSubtotal ? 'bg-gray-50 font-semibold' : 'hover:bg-gray-50'}>
+                <td
+                  className="px-6 py-2 whitespace-nowrap text-sm text-gray-900"
+                  style={{ paddingLeft: `${1.5 + (row.isSubtotal ? 0 : row.level - 1) * 1.5}rem` }}
+                >
+                  {row.isSubtotal ? `Summe ${row.keys[row.keys.length - 1]}` : row.keys[row.keys.length - 1]}
+                </td>
+                {showColumns && row.values.map((value, index) => (
+                  <td key={result.columnKeys[index]} className="px-6 py-2 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {formatValue(value)}
+                  </td>
+                ))}
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900 text-right">{formatValue(row.total)}</td>
+              </tr>
+            ))}
+            <tr className="bg-gray-100 font-semibold">
+              <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">Gesamt</td>
+              {showColumns && result.columnTotals.map((value, index) => (
+                <td key={result.columnKeys[index]} className="px-6 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {formatValue(value)}
+                </td>
+              ))}
+              <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900 text-right">{formatValue(result.grandTotal)}</td>
+            </tr>
+          </tbody>
+        </table>
+        {result.rows.length > MAX_VISIBLE_ROWS && (
+          <p className="px-6 py-3 text-sm text-gray-500">
+            Es werden die ersten {formatNumber(MAX_VISIBLE_ROWS)} von {formatNumber(result.rows.length)} Zeilen angezeigt.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
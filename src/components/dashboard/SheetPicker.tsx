@@ -0,0 +1,47 @@
+import { useState } from 'react';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheetNames: string[];
+  onSelect: (sheetName: string) => void;
+  onCancel: () => void;
+}
+
+export function SheetPicker({ fileName, sheetNames, onSelect, onCancel }: SheetPickerProps) {
+  const [selectedSheet, setSelectedSheet] = useState<string>(sheetNames[0] ?? '');
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Tabellenblatt auswählen</h2>
+        <p className="text-sm text-gray-500">{fileName}</p>
+      </div>
+      <select
+        value={selectedSheet}
+        onChange={(e) => setSelectedSheet(e.target.value)}
+        className="block w-full rounded-lg border border-gray-300 bg-gray-50 p-2.5 text-sm text-gray-900"
+      >
+        {sheetNames.map((name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="rounded-lg bg-white border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Abbrechen
+        </button>
+        <button
+          onClick={() => onSelect(selectedSheet)}
+          disabled={!selectedSheet}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Weiter
+        </button>
+      </div>
+    </div>
+  );
+}
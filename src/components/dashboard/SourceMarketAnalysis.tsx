@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react';
+import { BookingData } from '../../types/booking';
+import {
+  DESTINATION_DIMENSIONS,
+  DestinationDimension,
+  GERMANY,
+  SOURCE_MARKET_METRICS,
+  SourceMarket,
+  SourceMarketMetric,
+  analyzeSourceMarkets,
+  getMarketCoverage,
+  getPostalArea,
+  normalizeCountry,
+} from '../../utils/sourceMarkets';
+import { formatCurrency, formatNumber, formatPercentage } from '../../utils/formatters';
+import { safeDivide } from '../../utils/metrics';
+
+interface SourceMarketAnalysisProps {
+  data: BookingData[];
+  comparisonData?: BookingData[];
+}
+
+// Für die Budgetplanung genügen die stärksten Märkte
+const MAX_MARKETS = 15;
+
+const getCountry = (booking: BookingData) => normalizeCountry(booking.country);
+
+export function SourceMarketAnalysis({ data, comparisonData }: SourceMarketAnalysisProps) {
+  const [metric, setMetric] = useState<SourceMarketMetric>('bookings');
+  const [dimension, setDimension] = useState<DestinationDimension>('region');
+
+  const countries = useMemo(
+    () => analyzeSourceMarkets(data, comparisonData, getCountry, metric, dimension),
+    [data, comparisonData, metric, dimension]
+  );
+
+  const postalAreas = useMemo(
+    () => analyzeSourceMarkets(data, comparisonData, getPostalArea, metric, dimension),
+    [data, comparisonData, metric, dimension]
+  );
+
+  const postalCoverage = useMemo(
+    () => getMarketCoverage(data.filter(booking => getCountry(booking) === GERMANY), getPostalArea),
+    [data]
+  );
+
+  const metricLabel = SOURCE_MARKET_METRICS.find(option => option.value === metric)?.label;
+  const dimensionLabel = DESTINATION_DIMENSIONS.find(option => option.value === dimension)?.label;
+
+  const renderTable = (title: string, markets: SourceMarket[], note?: string) => {
+    const total = markets.reduce((sum, market) => sum + market.current[metric], 0);
+    return (
+      <div className="overflow-x-auto">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+        {markets.length === 0 ? (
+          <p className="text-sm text-gray-500">Keine Herkunftsangaben vorhanden.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Markt</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungen</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Umsatz</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Personen</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Anteil</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Vorjahr</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bevorzugte Ziele ({dimensionLabel})</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {markets.slice(0, MAX_MARKETS).map(market => (
+                <tr key={market.name} className="hover:bg-gray-50">
+                  <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{market.name}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatNumber(market.current.bookings)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatCurrency(market.current.revenue)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatNumber(market.current.persons)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                    {formatPercentage(safeDivide(market.current[metric], total))}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-sm text-right">
+                    {market.change === null ? (
+                      <span className="text-gray-400">–</span>
+                    ) : (
+                      <span className={market.change >= 0 ? 'text-green-600' : 'text-red-600'}>
+                        {market.change > 0 ? '+' : ''}{formatPercentage(market.change)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-2 text-sm text-gray-500">
+                    {market.destinations.map(destination => `${destination.name} (${formatPercentage(destination.share)})`).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {note && <p className="mt-2 text-xs text-gray-500">{note}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Herkunftsmärkte</h2>
+          <p className="text-sm text-gray-500">
+            Sortiert nach {metricLabel}, ohne Stornierungen.
+            {!comparisonData && ' Die Veränderung zum Vorjahr erscheint im Jahresvergleich.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Kennzahl
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as SourceMarketMetric)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            >
+              {SOURCE_MARKET_METRICS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Ziele nach
+            <select
+              value={dimension}
+              onChange={(e) => setDimension(e.target.value as DestinationDimension)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            >
+              {DESTINATION_DIMENSIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {renderTable('Länder', countries)}
+        {renderTable(
+          'PLZ-Gebiete (Gäste aus Deutschland)',
+          postalAreas,
+          `${formatPercentage(postalCoverage)} der Buchungen aus Deutschland haben eine auswertbare Postleitzahl.`
+        )}
+      </div>
+    </div>
+  );
+}
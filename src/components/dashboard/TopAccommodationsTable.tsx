@@ -1,17 +1,21 @@
 import React, { useMemo, useState } from 'react';
 import { BookingData } from '../../types/booking';
-import { formatCurrency, formatPercentage, formatNumber } from '../../utils/formatters';
+import { formatCurrency, formatNights, formatPercentage, formatNumber } from '../../utils/formatters';
 import { format } from 'date-fns'; 
 import { de } from 'date-fns/locale';
 import { ArrowDownIcon, ArrowUpIcon, ArrowDownTrayIcon } from '@heroicons/react/20/solid';
 import { differenceInDays } from 'date-fns';
 import jsPDF from 'jspdf';
+import { calculateGroupedMetrics, groupBookings, relativeChange } from '../../utils/metrics';
+import { CustomMetric } from '../../types/customMetric';
+import { calculateCustomMetric, formatCustomMetric } from '../../utils/customMetrics';
 
 interface TopAccommodationsTableProps {
   data: BookingData[];
   comparisonData?: BookingData[];
   year1?: number;
   year2?: number;
+  customMetrics?: CustomMetric[];
 }
 
 interface AccommodationStats {
@@ -21,6 +25,9 @@ interface AccommodationStats {
   averageRevenue: number;
   totalCommission: number;
   cancellationRate: number;
+  nights: number;
+  averageLengthOfStay: number;
+  revenuePerNight: number;
 }
 
 export function TopAccommodationsTable({
@@ -28,40 +35,24 @@ export function TopAccommodationsTable({
   comparisonData,
   year1,
   year2,
+  customMetrics = [],
 }: TopAccommodationsTableProps) {
   const [selectedCity, setSelectedCity] = React.useState<string>('');
   const [showExportMenu, setShowExportMenu] = React.useState(false);
 
   const calculateStats = (bookings: BookingData[]): AccommodationStats[] => {
-    const accommodationMap = new Map<string, AccommodationStats>();
-
-    bookings.forEach((booking) => {
-      const name = booking.serviceName;
-      const stats = accommodationMap.get(name) || {
+    const statsArray = Array.from(calculateGroupedMetrics(bookings, booking => booking.serviceName))
+      .map(([name, metrics]) => ({
         name,
-        bookings: 0,
-        totalRevenue: 0,
-        averageRevenue: 0,
-        totalCommission: 0,
-        cancellationRate: 0,
-      };
-
-      stats.bookings++;
-      stats.totalRevenue += booking.totalPrice;
-      stats.totalCommission += booking.commission;
-      if (booking.cancelled) {
-        stats.cancellationRate++;
-      }
-
-      accommodationMap.set(name, stats);
-    });
-
-    // Berechne Durchschnittswerte und Stornierungsrate
-    const statsArray = Array.from(accommodationMap.values()).map((stats) => ({
-      ...stats,
-      averageRevenue: stats.totalRevenue / stats.bookings,
-      cancellationRate: (stats.cancellationRate / stats.bookings) * 100,
-    }));
+        bookings: metrics.bookings,
+        totalRevenue: metrics.revenue,
+        averageRevenue: metrics.averageRevenue,
+        totalCommission: metrics.commission,
+        cancellationRate: metrics.cancellationRate,
+        nights: metrics.roomNights,
+        averageLengthOfStay: metrics.averageLengthOfStay,
+        revenuePerNight: metrics.revenuePerNight,
+      }));
 
     // Sortiere nach Gesamtumsatz absteigend
     return statsArray.sort((a, b) => b.totalRevenue - a.totalRevenue).slice(0, 30);
@@ -69,11 +60,16 @@ export function TopAccommodationsTable({
 
   const currentStats = useMemo(() => calculateStats(data), [data]);
   const comparisonStats = useMemo(() => comparisonData ? calculateStats(comparisonData) : undefined, [comparisonData]);
+  const bookingsByAccommodation = useMemo(() => groupBookings(data, booking => booking.serviceName), [data]);
+
+  const formatChange = (change: number | null): string => {
+    return change === null ? 'N/A' : formatPercentage(change);
+  };
 
   // Funktion zum Bestimmen der Hintergrundfarbe basierend auf der Stornoquote
   const getCancellationRateColor = (rate: number): string => {
-    if (rate >= 20) return 'bg-red-100'; 
-    if (rate >= 10) return 'bg-yellow-100'; 
+    if (rate >= 0.2) return 'bg-red-100';
+    if (rate >= 0.1) return 'bg-yellow-100';
     return 'bg-green-100'; 
   };
 
@@ -100,7 +96,7 @@ export function TopAccommodationsTable({
     doc.text(`Erstellt am ${format(new Date(), 'dd.MM.yyyy', { locale: de })}`, 14, 30);
     
     // Tabellendaten vorbereiten
-    const headers = ['Unterkunft', 'Buchungen', 'Gesamtumsatz', 'Ø Umsatz', 'Provision', 'Stornierungsrate'];
+    const headers = ['Unterkunft', 'Buchungen', 'Gesamtumsatz', 'Ø Umsatz', 'Provision', 'Nächte', 'Ø Aufenthalt', 'ADR', 'Stornierungsrate'];
     const rows = currentStats.map(stat => [
       stat.name,
       stat.bookings.toLocaleString('de-DE'),
@@ -116,6 +112,9 @@ export function TopAccommodationsTable({
         style: 'currency',
         currency: 'EUR',
       }),
+      formatNumber(stat.nights),
+      formatNights(stat.averageLengthOfStay),
+      formatCurrency(stat.revenuePerNight),
       stat.cancellationRate.toLocaleString('de-DE', {
         style: 'percent',
         minimumFractionDigits: 1,
@@ -133,12 +132,15 @@ export function TopAccommodationsTable({
         cellPadding: 2,
       },
       columnStyles: {
-        0: { cellWidth: 50 },
-        1: { cellWidth: 30 },
-        2: { cellWidth: 40 },
-        3: { cellWidth: 30 },
-        4: { cellWidth: 30 },
-        5: { cellWidth: 30 }
+        0: { cellWidth: 40 },
+        1: { cellWidth: 18 },
+        2: { cellWidth: 22 },
+        3: { cellWidth: 18 },
+        4: { cellWidth: 18 },
+        5: { cellWidth: 14 },
+        6: { cellWidth: 18 },
+        7: { cellWidth: 16 },
+        8: { cellWidth: 18 }
       }
     });
     
@@ -212,9 +214,23 @@ export function TopAccommodationsTable({
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Provision
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Nächte
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ø Aufenthalt
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  ADR
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Stornierungsrate
                 </th>
+                {customMetrics.map((metric) => (
+                  <th key={metric.id} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {metric.name}
+                  </th>
+                ))}
                 {comparisonStats && (
                   <>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -259,6 +275,15 @@ export function TopAccommodationsTable({
                         currency: 'EUR',
                       })}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatNumber(stats.nights)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatNights(stats.averageLengthOfStay)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(stats.revenuePerNight)}
+                    </td>
                     <td className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 ${getCancellationRateColor(stats.cancellationRate)}`}>
                       {stats.cancellationRate.toLocaleString('de-DE', {
                         style: 'percent',
@@ -266,25 +291,18 @@ export function TopAccommodationsTable({
                         maximumFractionDigits: 1,
                       })}
                     </td>
+                    {customMetrics.map((metric) => (
+                      <td key={metric.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatCustomMetric(calculateCustomMetric(metric, bookingsByAccommodation.get(stats.name) ?? []), metric.format)}
+                      </td>
+                    ))}
                     {comparisonStats && (
                       <>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {comparisonStat
-                            ? ((stats.bookings - comparisonStat.bookings) / comparisonStat.bookings * 100).toLocaleString('de-DE', {
-                                style: 'percent',
-                                minimumFractionDigits: 1,
-                                maximumFractionDigits: 1,
-                              })
-                            : 'N/A'}
+                          {formatChange(relativeChange(stats.bookings, comparisonStat?.bookings))}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {comparisonStat
-                            ? ((stats.totalRevenue - comparisonStat.totalRevenue) / comparisonStat.totalRevenue * 100).toLocaleString('de-DE', {
-                                style: 'percent',
-                                minimumFractionDigits: 1,
-                                maximumFractionDigits: 1,
-                              })
-                            : 'N/A'}
+                          {formatChange(relativeChange(stats.totalRevenue, comparisonStat?.totalRevenue))}
                         </td>
                       </>
                     )}
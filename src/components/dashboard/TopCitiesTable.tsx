@@ -2,6 +2,10 @@ import React, { useMemo, useState } from 'react';
 import { BookingData } from '../../types/booking';
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
+import { BookingMetrics, calculateGroupedMetrics, groupBookings, relativeChange } from '../../utils/metrics';
+import { CustomMetric } from '../../types/customMetric';
+import { calculateCustomMetric, formatCustomMetric } from '../../utils/customMetrics';
+import { formatNights } from '../../utils/formatters';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
 
@@ -9,6 +13,7 @@ interface TopCitiesTableProps {
   data: BookingData[];
   isYearComparison: boolean;
   comparisonData?: BookingData[];
+  customMetrics?: CustomMetric[];
 }
 
 interface CityStats {
@@ -17,6 +22,8 @@ interface CityStats {
   bookings: number;
   commission: number;
   nights: number;
+  averageLengthOfStay: number;
+  revenuePerNight: number;
   cancelledBookings: number;
   accommodationsCount: number;
   comparisonRevenue?: number;
@@ -26,63 +33,25 @@ interface CityStats {
   comparisonCancelledBookings?: number;
 }
 
-export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCitiesTableProps) {
+export function TopCitiesTable({ data, isYearComparison, comparisonData, customMetrics = [] }: TopCitiesTableProps) {
   const [showExportMenu, setShowExportMenu] = useState(false);
 
   const cityStats = useMemo(() => {
-    // Funktion zum Berechnen der Statistiken für einen Datensatz
-    const calculateStats = (bookings: BookingData[]) => {
-      const stats = new Map<string, {
-        revenue: number;
-        bookings: number;
-        commission: number;
-        nights: number;
-        cancelledBookings: number;
-        accommodations: Set<string>;
-      }>();
+    const getCityName = (booking: BookingData) => booking.serviceCity || 'Unbekannt';
 
-      bookings.forEach((booking) => {
-        const cityName = booking.serviceCity || 'Unbekannt';
+    // Berechne Statistiken für den Haupt- und den Vergleichszeitraum
+    const currentStats = calculateGroupedMetrics(data, getCityName);
+    const compStats = comparisonData ? calculateGroupedMetrics(comparisonData, getCityName) : new Map<string, BookingMetrics>();
 
-        const current = stats.get(cityName) || {
-          revenue: 0,
-          bookings: 0,
-          commission: 0,
-          nights: 0,
-          cancelledBookings: 0,
-          accommodations: new Set<string>(),
-        };
-
-        const price = typeof booking.totalPrice === 'number' ? booking.totalPrice : parseFloat(booking.totalPrice || '0');
-        const commission = typeof booking.commission === 'number' ? booking.commission : parseFloat(booking.commission || '0');
-        
-        // Bei stornierten Buchungen Umsatz und Provision auf 0 setzen
-        const finalPrice = booking.cancelled ? 0 : price;
-        const finalCommission = booking.cancelled ? 0 : commission;
-
-        // Füge die Unterkunft zum Set hinzu
-        if (booking.serviceName) {
-          current.accommodations.add(booking.serviceName);
-        }
-
-        stats.set(cityName, {
-          revenue: current.revenue + finalPrice,
-          bookings: current.bookings + 1,
-          commission: current.commission + finalCommission,
-          nights: current.nights,
-          cancelledBookings: current.cancelledBookings + (booking.cancelled ? 1 : 0),
-          accommodations: current.accommodations,
-        });
-      });
-
-      return stats;
-    };
-
-    // Berechne Statistiken für den Hauptzeitraum
-    const currentStats = calculateStats(data);
-    
-    // Berechne Statistiken für den Vergleichszeitraum
-    const compStats = comparisonData ? calculateStats(comparisonData) : new Map();
+    // Unterkünfte je Stadt
+    const accommodations = new Map<string, Set<string>>();
+    data.forEach((booking) => {
+      if (!booking.serviceName) return;
+      const cityName = getCityName(booking);
+      const names = accommodations.get(cityName) ?? new Set<string>();
+      names.add(booking.serviceName);
+      accommodations.set(cityName, names);
+    });
 
     // Kombiniere die Statistiken
     const combinedStats: CityStats[] = [];
@@ -96,13 +65,15 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
         revenue: current.revenue,
         bookings: current.bookings,
         commission: current.commission,
-        nights: current.nights,
+        nights: current.roomNights,
+        averageLengthOfStay: current.averageLengthOfStay,
+        revenuePerNight: current.revenuePerNight,
         cancelledBookings: current.cancelledBookings,
-        accommodationsCount: current.accommodations.size,
+        accommodationsCount: accommodations.get(name)?.size ?? 0,
         comparisonRevenue: comparison?.revenue,
         comparisonBookings: comparison?.bookings,
         comparisonCommission: comparison?.commission,
-        comparisonNights: comparison?.nights,
+        comparisonNights: comparison?.roomNights,
         comparisonCancelledBookings: comparison?.cancelledBookings
       };
 
@@ -115,6 +86,8 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
       .slice(0, 30);
   }, [data, comparisonData]);
 
+  const bookingsByCity = useMemo(() => groupBookings(data, booking => booking.serviceCity || 'Unbekannt'), [data]);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('de-DE', {
       style: 'currency',
@@ -127,8 +100,9 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
   };
 
   const calculateChange = (current: number, previous?: number) => {
-    if (!previous) return '';
-    const change = ((current - previous) / previous) * 100;
+    const relative = relativeChange(current, previous);
+    if (relative === null) return '';
+    const change = relative * 100;
     return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
   };
 
@@ -154,7 +128,7 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
     doc.text(`Erstellt am: ${currentDate}`, 14, 22);
 
     const headers = [
-      ['Stadt', 'Umsatz', 'Buchungen', 'Provision', 'Stornierungen', 'Unterkünfte']
+      ['Stadt', 'Umsatz', 'Buchungen', 'Provision', 'Nächte', 'Ø Aufenthalt', 'ADR', 'Stornierungen', 'Unterkünfte']
     ];
 
     const data = cityStats.map(city => [
@@ -162,6 +136,9 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
       formatCurrency(city.revenue),
       formatNumber(city.bookings),
       formatCurrency(city.commission),
+      formatNumber(city.nights),
+      formatNights(city.averageLengthOfStay),
+      formatCurrency(city.revenuePerNight),
       formatNumber(city.cancelledBookings),
       formatNumber(city.accommodationsCount),
     ]);
@@ -176,12 +153,15 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
         cellPadding: 2,
       },
       columnStyles: {
-        0: { cellWidth: 60 },
-        1: { cellWidth: 30, halign: 'right' },
-        2: { cellWidth: 25, halign: 'right' },
-        3: { cellWidth: 30, halign: 'right' },
-        4: { cellWidth: 25, halign: 'right' },
+        0: { cellWidth: 50 },
+        1: { cellWidth: 28, halign: 'right' },
+        2: { cellWidth: 22, halign: 'right' },
+        3: { cellWidth: 28, halign: 'right' },
+        4: { cellWidth: 22, halign: 'right' },
         5: { cellWidth: 25, halign: 'right' },
+        6: { cellWidth: 25, halign: 'right' },
+        7: { cellWidth: 25, halign: 'right' },
+        8: { cellWidth: 22, halign: 'right' },
       },
     });
 
@@ -231,12 +211,26 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Provision
               </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Nächte
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Ø Aufenthalt
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                ADR
+              </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Stornierungen
               </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Unterkünfte
               </th>
+              {customMetrics.map((metric) => (
+                <th key={metric.id} className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {metric.name}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -269,6 +263,20 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
                     </div>
                   )}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  <div>{formatNumber(city.nights)}</div>
+                  {isYearComparison && city.comparisonNights !== undefined && (
+                    <div className={`text-xs ${getChangeColor(city.nights, city.comparisonNights)}`}>
+                      {calculateChange(city.nights, city.comparisonNights)}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  {formatNights(city.averageLengthOfStay)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  {formatCurrency(city.revenuePerNight)}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
                   <div>{formatNumber(city.cancelledBookings)}</div>
                   {isYearComparison && city.comparisonCancelledBookings !== undefined && (
@@ -280,6 +288,11 @@ export function TopCitiesTable({ data, isYearComparison, comparisonData }: TopCi
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
                   <div>{formatNumber(city.accommodationsCount)}</div>
                 </td>
+                {customMetrics.map((metric) => (
+                  <td key={metric.id} className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatCustomMetric(calculateCustomMetric(metric, bookingsByCity.get(city.name) ?? []), metric.format)}
+                  </td>
+                ))}
               </tr>
             ))}
           </tbody>
@@ -0,0 +1,88 @@
+import { getFieldLabel } from '../../utils/columnMapping';
+import { FileUpdateLog } from '../../utils/bookingUpdates';
+import { formatFieldValue, formatNumber } from '../../utils/formatters';
+
+interface UpdateLogProps {
+  logs: FileUpdateLog[];
+  onClose: () => void;
+}
+
+// Bei sehr großen Änderungsdateien nur die ersten Einträge anzeigen
+const MAX_VISIBLE_ENTRIES = 200;
+
+export function UpdateLog({ logs, onClose }: UpdateLogProps) {
+  const entries = logs.flatMap(log => log.applied.map(entry => ({ fileName: log.fileName, ...entry })));
+  const unknownCodes = logs.flatMap(log => log.unknownCodes.map(code => ({ fileName: log.fileName, code })));
+  const unchanged = logs.reduce((sum, log) => sum + log.unchanged, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Aktualisierung angewendet</h2>
+          <p className="text-sm text-gray-500">
+            {formatNumber(entries.length)} Buchungen geändert · {formatNumber(unchanged)} ohne Änderung ·{' '}
+            {formatNumber(unknownCodes.length)} unbekannte Buchungscodes
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+        >
+          Schließen
+        </button>
+      </div>
+
+      {unknownCodes.length > 0 && (
+        <div className="m-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+          <div className="font-medium">Nicht im Datensatz gefunden und daher nicht angewendet:</div>
+          <div className="mt-1">
+            {unknownCodes.map(({ fileName, code }) => (
+              <span key={`${fileName}-${code}`} className="mr-2 inline-block" title={fileName}>{code}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="overflow-x-auto max-h-96">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buchungscode</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Feld</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vorher</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nachher</th>
+                {logs.length > 1 && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Datei</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.slice(0, MAX_VISIBLE_ENTRIES).flatMap((entry, entryIndex) =>
+                entry.changes.map((change, changeIndex) => (
+                  <tr key={`${entryIndex}-${change.field}`}>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {changeIndex === 0 ? entry.bookingCode : ''}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-700">{getFieldLabel(change.field)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">{formatFieldValue(change.field, change.before)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">{formatFieldValue(change.field, change.after)}</td>
+                    {logs.length > 1 && (
+                      <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">{changeIndex === 0 ? entry.fileName : ''}</td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          {entries.length > MAX_VISIBLE_ENTRIES && (
+            <p className="px-6 py-3 text-sm text-gray-500">
+              Es werden die ersten {MAX_VISIBLE_ENTRIES} von {formatNumber(entries.length)} geänderten Buchungen angezeigt.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,70 +1,72 @@
 import { useMemo } from 'react';
 import { BookingData } from '../../types/booking';
 import { format } from 'date-fns';
-import { formatCurrency, formatPercentage } from '../../utils/formatters';
+import { de } from 'date-fns/locale';
+import { formatCurrency, formatNights, formatPercentage } from '../../utils/formatters';
+import { calculateGroupedMetrics, relativeChange, safeDivide } from '../../utils/metrics';
+import { RevenueAllocation, aggregateStayNights } from '../../utils/stayAllocation';
+import { DEFAULT_DATE_BASIS, DateBasis, getBasisDate, getDateBasisLabel } from '../../utils/dateBasis';
+import { MonthForecast } from '../../utils/forecast';
 
 interface YearComparisonTableProps {
   data: BookingData[];
   comparisonData: BookingData[];
   year1: number;
   year2: number;
+  allocation?: RevenueAllocation;
+  // Ohne Callback wird keine Auswahl der Zuordnung angezeigt
+  onAllocationChange?: (allocation: RevenueAllocation) => void;
+  dateBasis?: DateBasis;
+  // Umsatzprognose je Anreisemonat; nur sinnvoll bei Monaten nach Anreisedatum
+  forecast?: MonthForecast[];
 }
 
-export function YearComparisonTable({ data, comparisonData, year1, year2 }: YearComparisonTableProps) {
-  const calculateMonthlyStats = (data: BookingData[]): Record<string, MonthlyStats> => {
-    const monthlyStats: Record<string, MonthlyStats> = {};
-    
-    // Initialisiere die Monate
-    for (let month = 0; month < 12; month++) {
-      const monthKey = format(new Date(2000, month, 1), 'MM');
-      monthlyStats[monthKey] = {
-        revenue: 0,
-        commission: 0,
-        bookings: 0,
-        nights: 0,
-        cancellationRate: 0,
-      };
-    }
+const calculateMonthlyStats = (
+  data: BookingData[],
+  year: number,
+  allocation: RevenueAllocation,
+  dateBasis: DateBasis
+): Record<string, MonthlyStats> => {
+  const monthlyStats: Record<string, MonthlyStats> = {};
+  const getMonthKey = (booking: BookingData) => format(getBasisDate(booking, dateBasis)!, 'MM');
+  const inYear = data.filter(booking => getBasisDate(booking, dateBasis)?.getFullYear() === year);
+  const metricsByMonth = calculateGroupedMetrics(inYear, getMonthKey);
+  // Umsatz, Provision und Nächte anteilig auf die Aufenthaltsnächte des Jahres verteilen
+  const stayByMonth = allocation === 'stay'
+    ? aggregateStayNights(data, date => (date.getFullYear() === year ? format(date, 'MM') : null))
+    : undefined;
 
-    // Berechne die Statistiken
-    data.forEach(booking => {
-      const monthKey = format(new Date(booking.arrivalDate), 'MM');
-      const stats = monthlyStats[monthKey];
-      
-      stats.revenue += booking.totalPrice || 0;
-      stats.commission += booking.commission || 0;
-      stats.bookings += 1;
-      
-      // Berechne die Anzahl der Nächte aus An- und Abreisedatum
-      const nights = differenceInDays(
-        new Date(booking.departureDate),
-        new Date(booking.arrivalDate)
-      );
-      stats.nights += nights;
-      
-      // Zähle Stornierungen
-      if (booking.cancelled) {
-        stats.cancellationRate += 1;
-      }
-    });
-
-    // Berechne die Stornoquote
-    Object.values(monthlyStats).forEach(stats => {
-      if (stats.bookings > 0) {
-        stats.cancellationRate = (stats.cancellationRate / stats.bookings) * 100;
-      }
-    });
+  // Initialisiere die Monate
+  for (let month = 0; month < 12; month++) {
+    const monthKey = format(new Date(2000, month, 1), 'MM');
+    const metrics = metricsByMonth.get(monthKey);
+    const stay = stayByMonth?.get(monthKey);
+    monthlyStats[monthKey] = {
+      revenue: stayByMonth ? stay?.revenue ?? 0 : metrics?.revenue ?? 0,
+      commission: stayByMonth ? stay?.commission ?? 0 : metrics?.commission ?? 0,
+      bookings: metrics?.bookings ?? 0,
+      nights: stayByMonth ? stay?.roomNights ?? 0 : metrics?.roomNights ?? 0,
+      guestNights: stay?.guestNights ?? 0,
+      averageLengthOfStay: metrics?.averageLengthOfStay ?? 0,
+      revenuePerNight: stayByMonth
+        ? safeDivide(stay?.revenue ?? 0, stay?.roomNights ?? 0)
+        : metrics?.revenuePerNight ?? 0,
+      cancellationRate: metrics?.cancellationRate ?? 0,
+    };
+  }
 
-    return monthlyStats;
-  };
+  return monthlyStats;
+};
 
+export function YearComparisonTable({ data, comparisonData, year1, year2, allocation = 'basis', onAllocationChange, dateBasis = DEFAULT_DATE_BASIS, forecast }: YearComparisonTableProps) {
   const formatNumber = (value: number) => {
     return new Intl.NumberFormat('de-DE').format(value);
   };
 
   const calculateChange = (current: number, previous: number): string => {
-    if (previous === 0) return '-';
-    const change = ((current - previous) / previous) * 100;
+    const relative = relativeChange(current, previous);
+    if (relative === null) return '-';
+    const change = relative * 100;
     const prefix = change > 0 ? '+' : '';
     return `${prefix}${change.toFixed(1)}%`;
   };
@@ -77,89 +79,173 @@ export function YearComparisonTable({ data, comparisonData, year1, year2 }: Year
     };
   });
 
-  const currentYearStats = useMemo(() => calculateMonthlyStats(data), [data]);
-  const previousYearStats = useMemo(() => calculateMonthlyStats(comparisonData), [comparisonData]);
+  const currentYearStats = useMemo(() => calculateMonthlyStats(data, year1, allocation, dateBasis), [data, year1, allocation, dateBasis]);
+  const previousYearStats = useMemo(() => calculateMonthlyStats(comparisonData, year2, allocation, dateBasis), [comparisonData, year2, allocation, dateBasis]);
+  const forecastByMonth = useMemo(() => new Map(forecast?.map(row => [row.month, row])), [forecast]);
 
   return (
-    <div className="overflow-x-auto">
-      <table className="min-w-full divide-y divide-gray-200">
-        <thead>
-          <tr>
-            <th className="px-6 py-3 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Monat
-            </th>
-            <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
-              Umsatz
-            </th>
-            <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
-              Provision
-            </th>
-            <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
-              Buchungen
-            </th>
-            <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
-              Nächte
-            </th>
-            <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
-              Stornoquote
-            </th>
-          </tr>
-        </thead>
-        <tbody className="bg-white divide-y divide-gray-200">
-          {months.map(({ key, name }) => {
-            const currentStats = currentYearStats[key];
-            const previousStats = previousYearStats[key];
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Monatsvergleich {year1} vs. {year2}</h2>
+          <p className="text-sm text-gray-500">
+            {allocation === 'stay'
+              ? `Umsatz, Provision, Nächte, Gästenächte und ADR nach Aufenthaltsnächten verteilt; Buchungen, Ø Aufenthalt und Stornoquote nach ${getDateBasisLabel(dateBasis)}.`
+              : `Monate nach ${getDateBasisLabel(dateBasis)}`}
+          </p>
+          {allocation === 'stay' && (
+            <p className="text-xs text-gray-500">
+              Die Verteilung gilt nur für diese Tabelle; Kennzahlen, Top-Listen, Trends und Pivot werten nach {getDateBasisLabel(dateBasis)} aus.
+            </p>
+          )}
+        </div>
+        {onAllocationChange && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Umsatz zuordnen nach
+            <select
+              value={allocation}
+              onChange={(e) => onAllocationChange(e.target.value as RevenueAllocation)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            >
+              <option value="basis">Monat ({getDateBasisLabel(dateBasis)})</option>
+              <option value="stay">Aufenthaltsnächten (anteilig)</option>
+            </select>
+          </label>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-6 py-3 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Monat
+              </th>
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                Umsatz
+              </th>
+              {forecast && (
+                <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Prognose
+                </th>
+              )}
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                Provision
+              </th>
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                Buchungen
+              </th>
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                Nächte
+              </th>
+              {allocation === 'stay' && (
+                <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                  Gästenächte
+                </th>
+              )}
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                Ø Aufenthalt
+              </th>
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                ADR
+              </th>
+              <th className="px-6 py-3 bg-gray-50 text-right text-xs font-medium text-gray-500 uppercase tracking-wider" colSpan={2}>
+                Stornoquote
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {months.map(({ key, name }) => {
+              const currentStats = currentYearStats[key];
+              const previousStats = previousYearStats[key];
+              const monthForecast = forecastByMonth.get(`${year1}-${key}`);
 
-            return (
-              <tr key={key} className="hover:bg-gray-50">
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {name}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  {formatCurrency(currentStats.revenue)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  <span className={`${currentStats.revenue > previousStats.revenue ? 'text-green-600' : 'text-red-600'}`}>
-                    {calculateChange(currentStats.revenue, previousStats.revenue)}
-                  </span>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  {formatCurrency(currentStats.commission)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  <span className={`${currentStats.commission > previousStats.commission ? 'text-green-600' : 'text-red-600'}`}>
-                    {calculateChange(currentStats.commission, previousStats.commission)}
-                  </span>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  {formatNumber(currentStats.bookings)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  <span className={`${currentStats.bookings > previousStats.bookings ? 'text-green-600' : 'text-red-600'}`}>
-                    {calculateChange(currentStats.bookings, previousStats.bookings)}
-                  </span>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  {formatNumber(currentStats.nights)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  <span className={`${currentStats.nights > previousStats.nights ? 'text-green-600' : 'text-red-600'}`}>
-                    {calculateChange(currentStats.nights, previousStats.nights)}
-                  </span>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  {formatPercentage(currentStats.cancellationRate)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
-                  <span className={`${currentStats.cancellationRate < previousStats.cancellationRate ? 'text-green-600' : 'text-red-600'}`}>
-                    {calculateChange(currentStats.cancellationRate, previousStats.cancellationRate)}
-                  </span>
-                </td>
-              </tr>
-            );
-          })}
-        </tbody>
-      </table>
+              return (
+                <tr key={key} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatCurrency(currentStats.revenue)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.revenue > previousStats.revenue ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.revenue, previousStats.revenue)}
+                    </span>
+                  </td>
+                  {forecast && (
+                    <td
+                      className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right"
+                      title={monthForecast ? `${formatCurrency(monthForecast.lower.revenue)} – ${formatCurrency(monthForecast.upper.revenue)}` : undefined}
+                    >
+                      {monthForecast ? formatCurrency(monthForecast.forecast.revenue) : '–'}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatCurrency(currentStats.commission)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.commission > previousStats.commission ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.commission, previousStats.commission)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatNumber(currentStats.bookings)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.bookings > previousStats.bookings ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.bookings, previousStats.bookings)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatNumber(currentStats.nights)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.nights > previousStats.nights ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.nights, previousStats.nights)}
+                    </span>
+                  </td>
+                  {allocation === 'stay' && (
+                    <>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {formatNumber(currentStats.guestNights)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                        <span className={`${currentStats.guestNights > previousStats.guestNights ? 'text-green-600' : 'text-red-600'}`}>
+                          {calculateChange(currentStats.guestNights, previousStats.guestNights)}
+                        </span>
+                      </td>
+                    </>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatNights(currentStats.averageLengthOfStay)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.averageLengthOfStay > previousStats.averageLengthOfStay ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.averageLengthOfStay, previousStats.averageLengthOfStay)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatCurrency(currentStats.revenuePerNight)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.revenuePerNight > previousStats.revenuePerNight ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.revenuePerNight, previousStats.revenuePerNight)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {formatPercentage(currentStats.cancellationRate)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    <span className={`${currentStats.cancellationRate < previousStats.cancellationRate ? 'text-green-600' : 'text-red-600'}`}>
+                      {calculateChange(currentStats.cancellationRate, previousStats.cancellationRate)}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
@@ -169,5 +255,9 @@ interface MonthlyStats {
   commission: number;
   bookings: number;
   nights: number;
+  // Nur bei Zuordnung nach Aufenthaltsnächten berechnet
+  guestNights: number;
+  averageLengthOfStay: number;
+  revenuePerNight: number;
   cancellationRate: number;
 }
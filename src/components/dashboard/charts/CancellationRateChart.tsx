@@ -15,6 +15,7 @@ import { Line } from 'react-chartjs-2';
 import { BookingData } from '../../../types/booking';
 import { startOfMonth, endOfMonth, format } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { DateBasis, getBasisDate } from '../../../utils/dateBasis';
 
 ChartJS.register(
   CategoryScale,
@@ -30,21 +31,23 @@ interface CancellationRateChartProps {
   data: BookingData[];
   startDate: Date;
   endDate: Date;
+  dateBasis: DateBasis;
 }
 
 export function CancellationRateChart({
   data,
   startDate,
   endDate,
+  dateBasis,
 }: CancellationRateChartProps) {
   const chartData = useMemo(() => {
     // Gruppiere die Daten nach Monaten
     const monthlyData = new Map<string, { total: number; cancelled: number }>();
 
     data.forEach((booking) => {
-      const bookingDate = new Date(booking.bookingDate);
-      if (bookingDate >= startDate && bookingDate <= endDate) {
-        const monthKey = format(bookingDate, 'yyyy-MM');
+      const basisDate = getBasisDate(booking, dateBasis);
+      if (basisDate && basisDate >= startDate && basisDate <= endDate) {
+        const monthKey = format(basisDate, 'yyyy-MM');
         const current = monthlyData.get(monthKey) || { total: 0, cancelled: 0 };
 
         current.total++;
@@ -80,7 +83,7 @@ export function CancellationRateChart({
         },
       ],
     };
-  }, [data, startDate, endDate]);
+  }, [data, startDate, endDate, dateBasis]);
 
   const options: ChartOptions<'line'> = {
     responsive: true,
@@ -12,17 +12,20 @@ import {
 import { BookingData } from '../../../types/booking'
 import { format, parse, startOfMonth } from 'date-fns'
 import { de } from 'date-fns/locale'
+import { DateBasis, getBasisDate } from '../../../utils/dateBasis'
 
 interface CancellationsChartProps {
   data: BookingData[]
+  dateBasis: DateBasis
 }
 
-export function CancellationsChart({ data }: CancellationsChartProps) {
+export function CancellationsChart({ data, dateBasis }: CancellationsChartProps) {
   const chartData = useMemo(() => {
     // Gruppiere Daten nach Monat
     const monthlyData = data.reduce((acc, booking) => {
-      const bookingDate = new Date(booking.bookingDate)
-      const monthKey = format(bookingDate, 'yyyy-MM')
+      const basisDate = getBasisDate(booking, dateBasis)
+      if (!basisDate) return acc
+      const monthKey = format(basisDate, 'yyyy-MM')
       
       if (!acc[monthKey]) {
         acc[monthKey] = {
@@ -49,7 +52,7 @@ export function CancellationsChart({ data }: CancellationsChartProps) {
         monthLabel: format(parse(monthData.month, 'yyyy-MM', new Date()), 'MMM yyyy', { locale: de }),
       }))
       .sort((a, b) => a.month.localeCompare(b.month))
-  }, [data])
+  }, [data, dateBasis])
 
   return (
     <div className="bg-white p-4 rounded-lg shadow">
@@ -13,6 +13,8 @@ import { Bar } from 'react-chartjs-2';
 import { BookingData } from '../../../types/booking';
 import { startOfMonth, format } from 'date-fns';
 import { de } from 'date-fns/locale';
+import { DateBasis, getBasisDate } from '../../../utils/dateBasis';
+import { effectiveCommission } from '../../../utils/metrics';
 
 ChartJS.register(
   CategoryScale,
@@ -27,23 +29,25 @@ interface CommissionsChartProps {
   data: BookingData[];
   startDate: Date;
   endDate: Date;
+  dateBasis: DateBasis;
 }
 
 export function CommissionsChart({
   data,
   startDate,
   endDate,
+  dateBasis,
 }: CommissionsChartProps) {
   const chartData = useMemo(() => {
     // Gruppiere die Daten nach Monaten
     const monthlyData = new Map<string, number>();
 
     data.forEach((booking) => {
-      const bookingDate = new Date(booking.bookingDate);
-      if (bookingDate >= startDate && bookingDate <= endDate) {
-        const monthKey = format(bookingDate, 'yyyy-MM');
+      const basisDate = getBasisDate(booking, dateBasis);
+      if (basisDate && basisDate >= startDate && basisDate <= endDate) {
+        const monthKey = format(basisDate, 'yyyy-MM');
         const currentCommission = monthlyData.get(monthKey) || 0;
-        monthlyData.set(monthKey, currentCommission + booking.commission);
+        monthlyData.set(monthKey, currentCommission + effectiveCommission(booking));
       }
     });
 
@@ -64,7 +68,7 @@ export function CommissionsChart({
         },
       ],
     };
-  }, [data, startDate, endDate]);
+  }, [data, startDate, endDate, dateBasis]);
 
   const options: ChartOptions<'bar'> = {
     responsive: true,
@@ -10,6 +10,7 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import { BookingData } from '../../../types/booking'
+import { calculateGroupedMetrics } from '../../../utils/metrics'
 
 interface TopAccommodationsChartProps {
   data: BookingData[]
@@ -21,26 +22,13 @@ export function TopAccommodationsChart({ data }: TopAccommodationsChartProps) {
   const [metric, setMetric] = useState<MetricType>('revenue')
 
   const chartData = useMemo(() => {
-    // Gruppiere Daten nach Service Name
-    const serviceStats = data.reduce((acc, booking) => {
-      const name = booking.serviceName
-      if (!acc[name]) {
-        acc[name] = {
-          name,
-          revenue: 0,
-          bookings: 0,
-        }
-      }
-      acc[name].revenue += booking.totalPrice
-      acc[name].bookings += 1
-      return acc
-    }, {} as Record<string, { name: string; revenue: number; bookings: number }>)
-
-    // Berechne Durchschnitt und sortiere nach ausgewählter Metrik
-    const processedData = Object.values(serviceStats)
-      .map(stat => ({
-        ...stat,
-        average: stat.revenue / stat.bookings,
+    // Kennzahlen je Unterkunft wie in der Tabelle, sortiert nach ausgewählter Metrik
+    const processedData = Array.from(calculateGroupedMetrics(data, booking => booking.serviceName))
+      .map(([name, metrics]) => ({
+        name,
+        revenue: metrics.revenue,
+        bookings: metrics.bookings,
+        average: metrics.averageRevenue,
       }))
       .sort((a, b) => {
         switch (metric) {
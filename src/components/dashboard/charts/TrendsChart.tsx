@@ -8,56 +8,45 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceArea,
+  ReferenceDot,
 } from 'recharts'
 import { BookingData } from '../../../types/booking'
-import { format, parseISO, startOfDay, addDays } from 'date-fns'
+import { format } from 'date-fns'
 import { de } from 'date-fns/locale'
+import { DateBasis } from '../../../utils/dateBasis'
+import { Anomaly, buildDailySeries } from '../../../utils/anomalies'
 
 interface TrendsChartProps {
   data: BookingData[]
+  dateBasis: DateBasis
+  anomalies?: Anomaly[]
 }
 
-export function TrendsChart({ data }: TrendsChartProps) {
-  const chartData = useMemo(() => {
-    // Gruppiere Buchungen nach Datum
-    const bookingsByDate = data.reduce((acc, booking) => {
-      const date = startOfDay(booking.bookingDate).toISOString()
-      if (!acc[date]) {
-        acc[date] = {
-          revenue: 0,
-          bookings: 0,
-          commissions: 0,
-        }
-      }
-      acc[date].revenue += booking.totalPrice
-      acc[date].bookings += 1
-      acc[date].commissions += booking.commission
-      return acc
-    }, {} as Record<string, { revenue: number; bookings: number; commissions: number }>)
-
-    // Erstelle eine sortierte Liste aller Daten
-    const sortedDates = Object.keys(bookingsByDate).sort()
-    
-    // Fülle Lücken in den Daten
-    const filledData = []
-    if (sortedDates.length > 0) {
-      let currentDate = parseISO(sortedDates[0])
-      const endDate = parseISO(sortedDates[sortedDates.length - 1])
-
-      while (currentDate <= endDate) {
-        const dateStr = currentDate.toISOString()
-        filledData.push({
-          date: format(currentDate, 'dd.MM.yyyy', { locale: de }),
-          revenue: bookingsByDate[dateStr]?.revenue ?? 0,
-          bookings: bookingsByDate[dateStr]?.bookings ?? 0,
-          commissions: bookingsByDate[dateStr]?.commissions ?? 0,
-        })
-        currentDate = addDays(currentDate, 1)
-      }
-    }
+export function TrendsChart({ data, dateBasis, anomalies = [] }: TrendsChartProps) {
+  const chartData = useMemo(
+    () => buildDailySeries(data, dateBasis).map(point => ({
+      date: format(point.date, 'dd.MM.yyyy', { locale: de }),
+      revenue: point.revenue,
+      bookings: point.bookings,
+      commissions: point.commissions,
+    })),
+    [data, dateBasis]
+  )
 
-    return filledData
-  }, [data])
+  // Auffällige Tage als Punkt auf der Linie, Wochen und Stornowellen als hinterlegter Bereich
+  const highlights = useMemo(() => {
+    const labels = new Set(chartData.map(entry => entry.date))
+    const toLabel = (date: Date) => format(date, 'dd.MM.yyyy', { locale: de })
+    return anomalies
+      .filter(anomaly => labels.has(toLabel(anomaly.start)) && labels.has(toLabel(anomaly.end)))
+      .map(anomaly => ({
+        anomaly,
+        x1: toLabel(anomaly.start),
+        x2: toLabel(anomaly.end),
+        dot: anomaly.granularity === 'day' && anomaly.metric !== 'cancellations' && anomaly.kind !== 'noBookings',
+      }))
+  }, [chartData, anomalies])
 
   const formatEuro = (value: number) => {
     return new Intl.NumberFormat('de-DE', {
@@ -101,6 +90,17 @@ export function TrendsChart({ data }: TrendsChartProps) {
               }}
             />
             <Legend />
+            {highlights.filter(({ dot }) => !dot).map(({ anomaly, x1, x2 }) => (
+              <ReferenceArea
+                key={anomaly.id}
+                yAxisId="left"
+                x1={x1}
+                x2={x2}
+                fill="#fecaca"
+                fillOpacity={0.4}
+                ifOverflow="extendDomain"
+              />
+            ))}
             <Line
               yAxisId="left"
               type="monotone"
@@ -128,6 +128,17 @@ export function TrendsChart({ data }: TrendsChartProps) {
               strokeWidth={2}
               dot={false}
             />
+            {highlights.filter(({ dot }) => dot).map(({ anomaly, x1 }) => (
+              <ReferenceDot
+                key={anomaly.id}
+                yAxisId={anomaly.metric === 'revenue' ? 'left' : 'right'}
+                x={x1}
+                y={anomaly.value}
+                r={5}
+                fill="#dc2626"
+                stroke="#fff"
+              />
+            ))}
           </LineChart>
         </ResponsiveContainer>
       </div>
@@ -0,0 +1,27 @@
+import { BookingData } from '../types/booking';
+
+/**
+ * Testbuchung mit plausiblen Standardwerten; einzelne Felder lassen sich überschreiben
+ */
+export const createBooking = (overrides: Partial<BookingData> = {}): BookingData => ({
+  bookingCode: 'B-1',
+  bookingDate: new Date(2024, 0, 10),
+  bookingTime: '10:00',
+  arrivalDate: new Date(2024, 5, 1),
+  departureDate: new Date(2024, 5, 4),
+  serviceCity: 'Westerland',
+  serviceName: 'Haus Düne',
+  serviceRegion: 'Sylt',
+  region: 'Nordsee',
+  totalPrice: 300,
+  adults: 2,
+  children: 0,
+  persons: 2,
+  country: 'Deutschland',
+  postalCode: '20095',
+  city: 'Hamburg',
+  serviceCountry: 'Deutschland',
+  cancelled: false,
+  commission: 30,
+  ...overrides,
+});
@@ -0,0 +1,9 @@
+export interface AnonymizationSettings {
+  truncatePostalCode: boolean;
+  hashBookingCode: boolean;
+  dropGuestCity: boolean;
+  // Daten schon beim Import dauerhaft anonymisiert speichern statt nur in Anzeige und Export
+  applyOnImport: boolean;
+  // Pro Browser zufällig erzeugt, damit sich Pseudonyme nicht durch Durchprobieren zurückrechnen lassen
+  salt: string;
+}
@@ -0,0 +1,9 @@
+export type CustomMetricFormat = 'number' | 'currency' | 'percent';
+
+export interface CustomMetric {
+  id: string;
+  name: string;
+  // Ausdruck in der Formelsprache aus utils/formula, z. B. sum(commission) / sum(persons)
+  formula: string;
+  format: CustomMetricFormat;
+}
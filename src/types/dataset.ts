@@ -0,0 +1,11 @@
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  importedAt: string;
+  // Zeitpunkt des letzten Anhängens oder Aktualisierens; importedAt bleibt der Erstimport
+  updatedAt?: string;
+  sourceFiles: string[];
+  rowCount: number;
+  // Beim Import bereits anonymisiert gespeichert
+  anonymized?: boolean;
+}
@@ -0,0 +1,72 @@
+import { BookingData } from './booking';
+
+export type BookingField = keyof BookingData;
+
+export type ImportMode = 'replace' | 'append' | 'update';
+
+export interface ImportInfo {
+  mode: ImportMode;
+  sourceFiles: string[];
+}
+
+// Teilweise Buchung aus einer Änderungsdatei; nur der Buchungscode ist Pflicht
+export type BookingUpdate = Pick<BookingData, 'bookingCode'> & Partial<BookingData>;
+
+// Zuordnung Spaltenüberschrift -> Feld in BookingData ('' = Spalte ignorieren)
+export type ColumnMapping = Record<string, BookingField | ''>;
+
+export interface BookingFieldDefinition {
+  field: BookingField;
+  label: string;
+  required: boolean;
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headerSignature: string;
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+// Zellwerte aus CSV (immer Text) oder Excel (auch Zahlen, Wahrheitswerte)
+export type RawValue = string | number | boolean | Date | null;
+
+export type RawRow = Record<string, RawValue>;
+
+export interface RawTable {
+  headers: string[];
+  rows: RawRow[];
+}
+
+export type DecimalSeparator = ',' | '.';
+
+export type CSVEncoding = 'UTF-8' | 'UTF-8-BOM' | 'windows-1252' | 'ISO-8859-1';
+
+export interface ConversionOptions {
+  decimalSeparator: DecimalSeparator;
+}
+
+export interface CSVFormat extends ConversionOptions {
+  delimiter: string;
+  encoding: CSVEncoding;
+}
+
+export interface ImportIssue {
+  line: number;
+  column: string;
+  field: BookingField | '';
+  value: string;
+  reason: string;
+}
+
+export interface ImportWorkerRequest {
+  file: File;
+  mapping: ColumnMapping;
+  format: CSVFormat;
+}
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; rows: number; bytes: number; totalBytes: number }
+  | { type: 'complete'; bookings: BookingData[]; issues: ImportIssue[]; rowCount: number; invalidRowCount: number }
+  | { type: 'error'; message: string };
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createBooking } from '../test/fixtures';
+import { buildDailySeries } from './anomalies';
+import { calculateMetrics } from './metrics';
+
+describe('buildDailySeries', () => {
+  const bookings = [
+    createBooking({ bookingCode: 'B-1', bookingDate: new Date(2024, 0, 10), totalPrice: 300, commission: 30 }),
+    createBooking({
+      bookingCode: 'B-2',
+      bookingDate: new Date(2024, 0, 10),
+      totalPrice: 1000,
+      commission: 100,
+      cancelled: true,
+      cancellationDate: new Date(2024, 0, 12),
+    }),
+  ];
+
+  it('zählt Umsatz und Provision stornierter Buchungen wie die Kennzahlen nicht mit', () => {
+    const series = buildDailySeries(bookings, 'bookingDate');
+    const metrics = calculateMetrics(bookings);
+    expect(series[0]).toMatchObject({ revenue: 300, commissions: 30, bookings: 2 });
+    expect(series.reduce((sum, point) => sum + point.revenue, 0)).toBe(metrics.revenue);
+    expect(series.reduce((sum, point) => sum + point.commissions, 0)).toBe(metrics.commission);
+  });
+
+  it('füllt Lücken und zählt Stornierungen am Stornierungsdatum', () => {
+    const series = buildDailySeries(bookings, 'bookingDate');
+    expect(series).toHaveLength(1);
+
+    const withLaterBooking = buildDailySeries(
+      [...bookings, createBooking({ bookingCode: 'B-3', bookingDate: new Date(2024, 0, 13) })],
+      'bookingDate'
+    );
+    expect(withLaterBooking.map(point => point.bookings)).toEqual([2, 0, 0, 1]);
+    expect(withLaterBooking[2].cancellations).toBe(1);
+  });
+});
@@ -0,0 +1,277 @@
+import { addDays, addWeeks, differenceInCalendarDays, endOfDay, endOfWeek, format, startOfDay, startOfWeek } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { DateBasis, getBasisDate } from './dateBasis';
+import { effectiveCommission, effectiveRevenue, median } from './metrics';
+
+export interface DailyPoint {
+  date: Date;
+  revenue: number;
+  bookings: number;
+  commissions: number;
+  cancellations: number;
+}
+
+export type AnomalyMetric = 'revenue' | 'bookings' | 'cancellations';
+
+export type AnomalyKind = 'dip' | 'spike' | 'noBookings';
+
+export interface Anomaly {
+  id: string;
+  kind: AnomalyKind;
+  metric: AnomalyMetric;
+  granularity: 'day' | 'week';
+  start: Date;
+  end: Date;
+  value: number;
+  expected: number;
+  score: number;
+  // Nur bei Auffälligkeiten einzelner Unterkünfte
+  accommodation?: string;
+}
+
+export const ANOMALY_THRESHOLDS = [
+  { value: 3, label: 'Hoch' },
+  { value: 3.5, label: 'Normal' },
+  { value: 5, label: 'Niedrig' },
+];
+
+export const DEFAULT_ANOMALY_THRESHOLD = 3.5;
+
+// Tage werden mit demselben Wochentag der Vorwochen verglichen, um Wochenendmuster nicht als Ausreißer zu werten
+const DAILY_WINDOW = 8;
+const DAILY_MIN_HISTORY = 4;
+const WEEKLY_WINDOW = 12;
+const WEEKLY_MIN_HISTORY = 6;
+// Unterkünfte erst prüfen, wenn sie üblicherweise mindestens so viele Buchungen pro Woche erhalten
+const MIN_WEEKLY_BOOKINGS = 2;
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  revenue: 'Umsatz',
+  bookings: 'Buchungen',
+  cancellations: 'Stornierungen',
+};
+
+/**
+ * Lückenlose Tagesreihe nach Datumsbasis; Umsatz und Provision ohne Stornierungen,
+ * die Stornierungen selbst zählen am Stornierungsdatum
+ */
+export const buildDailySeries = (bookings: BookingData[], dateBasis: DateBasis): DailyPoint[] => {
+  const byDay = new Map<number, DailyPoint>();
+  const getPoint = (date: Date) => {
+    const day = startOfDay(date);
+    let point = byDay.get(day.getTime());
+    if (!point) {
+      point = { date: day, revenue: 0, bookings: 0, commissions: 0, cancellations: 0 };
+      byDay.set(day.getTime(), point);
+    }
+    return point;
+  };
+
+  bookings.forEach((booking) => {
+    const basisDate = getBasisDate(booking, dateBasis);
+    if (!basisDate) return;
+    const point = getPoint(basisDate);
+    point.revenue += effectiveRevenue(booking);
+    point.bookings += 1;
+    point.commissions += effectiveCommission(booking);
+  });
+
+  if (byDay.size === 0) return [];
+  const times = Array.from(byDay.keys());
+  const first = new Date(Math.min(...times));
+  const last = new Date(Math.max(...times));
+
+  bookings.forEach((booking) => {
+    if (!booking.cancelled || !booking.cancellationDate) return;
+    if (booking.cancellationDate < first || booking.cancellationDate > endOfDay(last)) return;
+    getPoint(booking.cancellationDate).cancellations += 1;
+  });
+
+  const series: DailyPoint[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    series.push(byDay.get(day.getTime()) ?? { date: day, revenue: 0, bookings: 0, commissions: 0, cancellations: 0 });
+  }
+  return series;
+};
+
+/**
+ * Robuster z-Wert nach Iglewicz und Hoaglin auf Basis von Median und MAD. minDeviation begrenzt die
+ * Streuung nach unten, damit z. B. eine Stornowelle nach lauter Nullen erkannt wird; null ohne Streuung.
+ */
+export const robustZScore = (value: number, history: number[], minDeviation = 0): number | null => {
+  const center = median(history);
+  const mad = Math.max(median(history.map(entry => Math.abs(entry - center))), minDeviation);
+  if (mad > 0) return (0.6745 * (value - center)) / mad;
+
+  // Mehr als die Hälfte gleicher Werte: auf die mittlere absolute Abweichung ausweichen
+  const meanDeviation = history.reduce((sum, entry) => sum + Math.abs(entry - center), 0) / history.length;
+  return meanDeviation > 0 ? (value - center) / (1.253314 * meanDeviation) : null;
+};
+
+const scoreSeries = (
+  values: number[],
+  getHistory: (index: number) => number[],
+  minHistory: number,
+  threshold: number,
+  directions: 'both' | 'up',
+  minDeviation: number,
+  onAnomaly: (index: number, score: number, expected: number) => void
+) => {
+  values.forEach((value, index) => {
+    const history = getHistory(index);
+    if (history.length < minHistory) return;
+    const score = robustZScore(value, history, minDeviation);
+    if (score === null) return;
+    if (score >= threshold || (directions === 'both' && score <= -threshold)) {
+      onAnomaly(index, score, median(history));
+    }
+  });
+};
+
+/**
+ * Sucht auffällige Tage und Wochen bei Umsatz, Buchungen und Stornierungen sowie Wochen,
+ * in denen eine sonst regelmäßig gebuchte Unterkunft keine Buchung erhalten hat
+ */
+export const detectAnomalies = (
+  bookings: BookingData[],
+  dateBasis: DateBasis,
+  threshold = DEFAULT_ANOMALY_THRESHOLD
+): Anomaly[] => {
+  const series = buildDailySeries(bookings, dateBasis);
+  if (series.length === 0) return [];
+  const anomalies: Anomaly[] = [];
+  // Bei Anzahlen gilt eine Streuung von mindestens einer Buchung
+  const metrics: { metric: AnomalyMetric; directions: 'both' | 'up'; minDeviation: number }[] = [
+    { metric: 'revenue', directions: 'both', minDeviation: 0 },
+    { metric: 'bookings', directions: 'both', minDeviation: 1 },
+    { metric: 'cancellations', directions: 'up', minDeviation: 1 },
+  ];
+
+  // Tageswerte
+  metrics.forEach(({ metric, directions, minDeviation }) => {
+    const values = series.map(point => point[metric]);
+    scoreSeries(
+      values,
+      index => Array.from({ length: DAILY_WINDOW }, (_, week) => values[index - (week + 1) * 7]).filter(value => value !== undefined),
+      DAILY_MIN_HISTORY,
+      threshold,
+      directions,
+      minDeviation,
+      (index, score, expected) => anomalies.push({
+        id: `day-${metric}-${format(series[index].date, 'yyyy-MM-dd')}`,
+        kind: score > 0 ? 'spike' : 'dip',
+        metric,
+        granularity: 'day',
+        start: series[index].date,
+        end: endOfDay(series[index].date),
+        value: values[index],
+        expected,
+        score,
+      })
+    );
+  });
+
+  // Wochenwerte, nur vollständig beobachtete Wochen
+  const firstWeek = startOfWeek(series[0].date, { weekStartsOn: 1 });
+  const weeks: Date[] = [];
+  for (let week = firstWeek; endOfWeek(week, { weekStartsOn: 1 }) <= endOfDay(series[series.length - 1].date); week = addWeeks(week, 1)) {
+    if (week >= series[0].date) weeks.push(week);
+  }
+  const weekIndex = (date: Date) => Math.floor(differenceInCalendarDays(date, weeks[0]) / 7);
+
+  if (weeks.length > 0) {
+    metrics.forEach(({ metric, directions, minDeviation }) => {
+      const values = weeks.map(() => 0);
+      series.forEach((point) => {
+        const index = weekIndex(point.date);
+        if (index >= 0 && index < weeks.length) values[index] += point[metric];
+      });
+      scoreSeries(
+        values,
+        index => values.slice(Math.max(0, index - WEEKLY_WINDOW), index),
+        WEEKLY_MIN_HISTORY,
+        threshold,
+        directions,
+        minDeviation,
+        (index, score, expected) => anomalies.push({
+          id: `week-${metric}-${format(weeks[index], 'yyyy-MM-dd')}`,
+          kind: score > 0 ? 'spike' : 'dip',
+          metric,
+          granularity: 'week',
+          start: weeks[index],
+          end: endOfWeek(weeks[index], { weekStartsOn: 1 }),
+          value: values[index],
+          expected,
+          score,
+        })
+      );
+    });
+
+    // Unterkünfte ohne Buchung in einer Woche nach Buchungsdatum
+    const weeklyByAccommodation = new Map<string, number[]>();
+    bookings.forEach((booking) => {
+      if (!booking.serviceName) return;
+      const index = weekIndex(booking.bookingDate);
+      if (index < 0 || index >= weeks.length) return;
+      let values = weeklyByAccommodation.get(booking.serviceName);
+      if (!values) {
+        values = weeks.map(() => 0);
+        weeklyByAccommodation.set(booking.serviceName, values);
+      }
+      values[index] += 1;
+    });
+
+    weeklyByAccommodation.forEach((values, accommodation) => {
+      values.forEach((value, index) => {
+        if (value > 0 || index < WEEKLY_MIN_HISTORY) return;
+        const history = values.slice(Math.max(0, index - WEEKLY_WINDOW), index);
+        const expected = median(history);
+        if (expected < MIN_WEEKLY_BOOKINGS) return;
+        const score = robustZScore(value, history, 1);
+        if (score === null || score > -threshold) return;
+        anomalies.push({
+          id: `accommodation-${accommodation}-${format(weeks[index], 'yyyy-MM-dd')}`,
+          kind: 'noBookings',
+          metric: 'bookings',
+          granularity: 'week',
+          start: weeks[index],
+          end: endOfWeek(weeks[index], { weekStartsOn: 1 }),
+          value,
+          expected,
+          score,
+          accommodation,
+        });
+      });
+    });
+  }
+
+  return anomalies.sort((a, b) => b.start.getTime() - a.start.getTime() || Math.abs(b.score) - Math.abs(a.score));
+};
+
+/**
+ * Kurzbeschreibung einer Auffälligkeit für Listen und Filterhinweise
+ */
+export const describeAnomaly = (anomaly: Anomaly): string => {
+  if (anomaly.kind === 'noBookings') return `Keine Buchungen: ${anomaly.accommodation}`;
+  if (anomaly.metric === 'cancellations') return 'Stornowelle';
+  return `${METRIC_LABELS[anomaly.metric]} ${anomaly.kind === 'spike' ? 'ungewöhnlich hoch' : 'ungewöhnlich niedrig'}`;
+};
+
+/**
+ * Buchungen hinter einer Auffälligkeit; bei Unterkünften ohne Buchung die Buchungen der Vergleichswochen
+ */
+export const getAnomalyBookings = (bookings: BookingData[], anomaly: Anomaly, dateBasis: DateBasis): BookingData[] => {
+  if (anomaly.kind === 'noBookings') {
+    const from = addWeeks(anomaly.start, -WEEKLY_WINDOW);
+    return bookings.filter(booking =>
+      booking.serviceName === anomaly.accommodation && booking.bookingDate >= from && booking.bookingDate <= anomaly.end
+    );
+  }
+
+  return bookings.filter((booking) => {
+    const date = anomaly.metric === 'cancellations'
+      ? (booking.cancelled ? booking.cancellationDate : undefined)
+      : getBasisDate(booking, dateBasis);
+    return date !== undefined && date >= anomaly.start && date <= anomaly.end;
+  });
+};
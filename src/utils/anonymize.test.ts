@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadAnonymizationSettings } from './anonymize';
+
+describe('loadAnonymizationSettings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('liefert Einstellungen mit Salt, auch wenn der Speicher nicht beschreibbar ist', () => {
+    vi.stubGlobal('localStorage', {
+      getItem: () => null,
+      setItem: () => {
+        throw new DOMException('Speicher voll', 'QuotaExceededError');
+      },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const settings = loadAnonymizationSettings();
+    expect(settings.salt).not.toBe('');
+    expect(settings.hashBookingCode).toBe(false);
+  });
+});
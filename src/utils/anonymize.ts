@@ -0,0 +1,143 @@
+import { BookingData } from '../types/booking';
+import { BookingUpdate } from '../types/import';
+import { AnonymizationSettings } from '../types/anonymization';
+
+const STORAGE_KEY = 'csv-analytics-dashboard:anonymization';
+const PSEUDONYM_PREFIX = 'anon-';
+const POSTAL_CODE_DIGITS = 2;
+
+const FNV_PRIME = 0x01000193;
+const FNV_OFFSETS = [0x811c9dc5, 0x050c5d1f];
+
+export const DEFAULT_ANONYMIZATION: Omit<AnonymizationSettings, 'salt'> = {
+  truncatePostalCode: false,
+  hashBookingCode: false,
+  dropGuestCity: false,
+  applyOnImport: false,
+};
+
+/**
+ * Lädt die Anonymisierungseinstellungen; beim ersten Aufruf wird ein Salt erzeugt
+ */
+export const loadAnonymizationSettings = (): AnonymizationSettings => {
+  let stored: Partial<AnonymizationSettings> = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    stored = raw ? (JSON.parse(raw) as Partial<AnonymizationSettings>) : {};
+  } catch (error) {
+    console.error('Fehler beim Laden der Anonymisierungseinstellungen:', error);
+  }
+
+  const settings = { ...DEFAULT_ANONYMIZATION, salt: '', ...stored };
+  if (!settings.salt) {
+    settings.salt = crypto.randomUUID();
+    // Ohne Speicher (z. B. privater Modus) gilt der Salt nur für diese Sitzung
+    try {
+      saveAnonymizationSettings(settings);
+    } catch (error) {
+      console.error('Fehler beim Speichern der Anonymisierungseinstellungen:', error);
+    }
+  }
+  return settings;
+};
+
+/**
+ * Speichert die Anonymisierungseinstellungen
+ */
+export const saveAnonymizationSettings = (settings: AnonymizationSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Prüft, ob mindestens eine Anonymisierung aktiv ist
+ */
+export const isAnonymizationEnabled = (settings: AnonymizationSettings): boolean => {
+  return settings.truncatePostalCode || settings.hashBookingCode || settings.dropGuestCity;
+};
+
+const fnv1a = (text: string, offset: number): string => {
+  let hash = offset;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Ersetzt einen Buchungscode durch ein stabiles Pseudonym (FNV-1a, 64 Bit aus zwei Durchläufen)
+ */
+export const hashBookingCode = (bookingCode: string, salt: string): string => {
+  if (!bookingCode || bookingCode.startsWith(PSEUDONYM_PREFIX)) return bookingCode;
+  const input = `${salt}:${bookingCode}`;
+  return PSEUDONYM_PREFIX + FNV_OFFSETS.map(offset => fnv1a(input, offset)).join('');
+};
+
+/**
+ * Kürzt eine Postleitzahl auf die ersten beiden Stellen (Leitregion)
+ */
+export const truncatePostalCode = (postalCode: string): string => {
+  return postalCode.trim().slice(0, POSTAL_CODE_DIGITS);
+};
+
+/**
+ * Anonymisiert eine Buchung; mehrfaches Anwenden ändert das Ergebnis nicht
+ */
+export const anonymizeBooking = (booking: BookingData, settings: AnonymizationSettings): BookingData => {
+  return {
+    ...booking,
+    bookingCode: settings.hashBookingCode ? hashBookingCode(booking.bookingCode, settings.salt) : booking.bookingCode,
+    postalCode: settings.truncatePostalCode ? truncatePostalCode(booking.postalCode) : booking.postalCode,
+    city: settings.dropGuestCity ? '' : booking.city,
+  };
+};
+
+/**
+ * Anonymisiert alle Buchungen gemäß den Einstellungen
+ */
+export const anonymizeBookings = (data: BookingData[], settings: AnonymizationSettings): BookingData[] => {
+  if (!isAnonymizationEnabled(settings)) return data;
+  return data.map(booking => anonymizeBooking(booking, settings));
+};
+
+/**
+ * Anonymisiert eine Aktualisierungszeile; nur enthaltene Felder werden verändert
+ */
+export const anonymizeUpdate = (update: BookingUpdate, settings: AnonymizationSettings): BookingUpdate => {
+  const anonymized: BookingUpdate = {
+    ...update,
+    bookingCode: settings.hashBookingCode ? hashBookingCode(update.bookingCode, settings.salt) : update.bookingCode,
+  };
+  if (settings.truncatePostalCode && update.postalCode !== undefined) anonymized.postalCode = truncatePostalCode(update.postalCode);
+  if (settings.dropGuestCity && update.city !== undefined) anonymized.city = '';
+  return anonymized;
+};
+
+/**
+ * Einstellungen für neue Zeilen eines beim Import anonymisierten Datensatzes. Enthält der Bestand
+ * Pseudonyme, werden auch neue Codes pseudonymisiert, selbst wenn die Option inzwischen abgeschaltet ist.
+ */
+export const getIncomingAnonymization = (settings: AnonymizationSettings, data: BookingData[]): AnonymizationSettings => ({
+  ...settings,
+  hashBookingCode: settings.hashBookingCode || data.some(booking => booking.bookingCode?.startsWith(PSEUDONYM_PREFIX)),
+});
+
+/**
+ * Einstellungen für den Vergleich zweier Datensätze. Ist einer davon beim Import anonymisiert worden,
+ * werden beide vollständig anonymisiert, damit dieselbe Buchung auf beiden Seiten gleich aussieht.
+ */
+export const getComparisonAnonymization = (settings: AnonymizationSettings, includesAnonymized: boolean): AnonymizationSettings => {
+  if (!includesAnonymized) return settings;
+  return { ...settings, truncatePostalCode: true, hashBookingCode: true, dropGuestCity: true };
+};
+
+/**
+ * Beschreibt die aktiven Anonymisierungen für Hinweise in der Oberfläche
+ */
+export const describeAnonymization = (settings: AnonymizationSettings): string[] => {
+  const parts: string[] = [];
+  if (settings.truncatePostalCode) parts.push('PLZ auf 2 Stellen gekürzt');
+  if (settings.hashBookingCode) parts.push('Buchungscodes pseudonymisiert');
+  if (settings.dropGuestCity) parts.push('Gaststadt entfernt');
+  return parts;
+};
@@ -0,0 +1,204 @@
+import { BookingData } from '../types/booking';
+import { BookingField, BookingUpdate, ColumnMapping, ConversionOptions, DecimalSeparator, RawRow, RawValue } from '../types/import';
+import { normalizePostalCode } from './sourceMarkets';
+
+const GERMAN_DATE_PATTERN = /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const DATE_FIELDS: BookingField[] = ['bookingDate', 'arrivalDate', 'departureDate', 'cancellationDate'];
+const INTEGER_FIELDS: BookingField[] = ['adults', 'children', 'persons'];
+const MONEY_FIELDS: BookingField[] = ['totalPrice', 'commission'];
+const TRUE_VALUES = ['wahr', 'true', 'ja', 'yes', 'x', '1'];
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+  decimalSeparator: ',',
+};
+
+const createDate = (
+  year: string,
+  month: string,
+  day: string,
+  hours = '0',
+  minutes = '0',
+  seconds = '0'
+): Date => {
+  const date = new Date(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds)
+  );
+  // Ungültige Kalenderdaten wie 31.02. nicht stillschweigend verschieben
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) {
+    return new Date(NaN);
+  }
+  return date;
+};
+
+/**
+ * Wandelt ein Datum im Format TT.MM.JJJJ oder JJJJ-MM-TT (optional mit Uhrzeit) in ein Date um
+ */
+export const parseDateValue = (value: string): Date => {
+  const trimmed = value.trim();
+  const german = GERMAN_DATE_PATTERN.exec(trimmed);
+  if (german) {
+    const [, day, month, year, hours, minutes, seconds] = german;
+    return createDate(year, month, day, hours, minutes, seconds);
+  }
+  const iso = ISO_DATE_PATTERN.exec(trimmed);
+  if (iso) {
+    const [, year, month, day, hours, minutes, seconds] = iso;
+    return createDate(year, month, day, hours, minutes, seconds);
+  }
+  return new Date(NaN);
+};
+
+/**
+ * Wandelt eine Excel-Seriennummer (Tage seit 30.12.1899, Nachkommastellen = Uhrzeit) in ein Date um
+ */
+export const excelSerialToDate = (serial: number): Date => {
+  if (!isFinite(serial)) return new Date(NaN);
+  const utc = new Date(EXCEL_EPOCH + Math.round(serial * MS_PER_DAY));
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+};
+
+/**
+ * Wandelt einen Geldbetrag mit Tausender- und Dezimaltrennzeichen (z. B. 1.234,56 €) in eine Zahl um
+ */
+export const parseMoneyValue = (value: string, decimalSeparator: DecimalSeparator = ','): number => {
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const normalized = value
+    .replace(/[\s€]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+  return normalized === '' ? NaN : Number(normalized);
+};
+
+const formatTime = (date: Date): string => {
+  if (isNaN(date.getTime())) return '';
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+/**
+ * Wandelt einen Rohwert in den Typ des zugeordneten BookingData-Feldes um
+ */
+export const convertValue = (
+  field: BookingField,
+  value: RawValue | undefined,
+  options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS
+): unknown => {
+  if (DATE_FIELDS.includes(field)) {
+    if (value instanceof Date) return value;
+    if (typeof value === 'number') return excelSerialToDate(value);
+    const raw = String(value ?? '').trim();
+    if (field === 'cancellationDate' && raw === '') return undefined;
+    return parseDateValue(raw);
+  }
+  if (field === 'cancelled') {
+    if (typeof value === 'boolean') return value;
+    return TRUE_VALUES.includes(String(value ?? '').trim().toLowerCase());
+  }
+  if (MONEY_FIELDS.includes(field)) {
+    if (typeof value === 'number') return value;
+    return parseMoneyValue(String(value ?? '').trim(), options.decimalSeparator);
+  }
+  if (INTEGER_FIELDS.includes(field)) {
+    if (typeof value === 'number') return value;
+    const raw = String(value ?? '').trim();
+    return raw === '' ? 0 : Number(raw);
+  }
+  if (field === 'bookingTime' && (typeof value === 'number' || value instanceof Date)) {
+    return formatTime(typeof value === 'number' ? excelSerialToDate(value) : value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value ?? '').trim();
+};
+
+/**
+ * Formatiert einen Rohwert für die Vorschau
+ */
+export const formatRawValue = (value: RawValue | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toLocaleString('de-DE');
+  return String(value);
+};
+
+/**
+ * Erzeugt aus einer Rohzeile anhand der Spaltenzuordnung einen Buchungsdatensatz
+ */
+export const mapRowToBooking = (
+  row: RawRow,
+  mapping: ColumnMapping,
+  options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS
+): BookingData => {
+  const booking: Record<string, unknown> = {
+    bookingCode: '',
+    bookingTime: '',
+    serviceCity: '',
+    serviceName: '',
+    serviceRegion: '',
+    region: '',
+    adults: 0,
+    children: 0,
+    persons: 0,
+    country: '',
+    postalCode: '',
+    city: '',
+    serviceCountry: '',
+    cancelled: false,
+  };
+
+  Object.entries(mapping).forEach(([header, field]) => {
+    if (field) {
+      booking[field] = convertValue(field, row[header], options);
+    }
+  });
+
+  if (!booking.bookingTime && booking.bookingDate instanceof Date) {
+    booking.bookingTime = formatTime(booking.bookingDate);
+  }
+  booking.postalCode = normalizePostalCode(booking.postalCode as string, booking.country as string);
+
+  return booking as unknown as BookingData;
+};
+
+/**
+ * Wandelt eine Zeile einer Änderungsdatei um. Leere Zellen bedeuten „keine Änderung“.
+ */
+export const mapRowToUpdate = (
+  row: RawRow,
+  mapping: ColumnMapping,
+  options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS
+): BookingUpdate => {
+  const update: Record<string, unknown> = { bookingCode: '' };
+
+  Object.entries(mapping).forEach(([header, field]) => {
+    if (field && formatRawValue(row[header]).trim() !== '') {
+      update[field] = convertValue(field, row[header], options);
+    }
+  });
+
+  if (typeof update.postalCode === 'string' && typeof update.country === 'string') {
+    update.postalCode = normalizePostalCode(update.postalCode, update.country);
+  }
+
+  // Ein Stornodatum ohne eigene Storno-Spalte gilt als Stornierung
+  if (update.cancellationDate instanceof Date && update.cancelled === undefined) {
+    update.cancelled = true;
+  }
+
+  return update as unknown as BookingUpdate;
+};
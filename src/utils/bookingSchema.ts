@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { BookingData } from '../types/booking';
+import { BookingField, BookingUpdate, ColumnMapping, ConversionOptions, ImportIssue, RawRow } from '../types/import';
+import { DEFAULT_CONVERSION_OPTIONS, formatRawValue, mapRowToBooking, mapRowToUpdate } from './bookingConversion';
+import { SerializedRecord, reviveBooking } from './bookingSerialization';
+
+const dateField = () => z.date({
+  errorMap: (issue, ctx) => ({
+    message: issue.code === 'invalid_date' || ctx.data !== undefined
+      ? 'Kein gültiges Datum'
+      : 'Datum fehlt',
+  }),
+});
+
+const numberField = () => z.number({
+  required_error: 'Zahl fehlt',
+  invalid_type_error: 'Keine gültige Zahl',
+}).finite('Keine gültige Zahl');
+
+const textField = () => z.string({ required_error: 'Feld fehlt', invalid_type_error: 'Kein gültiger Text' });
+
+const countField = () => numberField()
+  .int('Keine ganze Zahl')
+  .nonnegative('Darf nicht negativ sein');
+
+const bookingFieldsSchema = z.object({
+  bookingCode: textField().min(1, 'Buchungscode fehlt'),
+  bookingDate: dateField(),
+  bookingTime: textField(),
+  arrivalDate: dateField(),
+  departureDate: dateField(),
+  serviceCity: textField(),
+  serviceName: textField(),
+  serviceRegion: textField(),
+  region: textField(),
+  totalPrice: numberField(),
+  adults: countField(),
+  children: countField(),
+  persons: countField(),
+  country: textField(),
+  postalCode: textField(),
+  city: textField(),
+  serviceCountry: textField(),
+  cancelled: z.boolean({ required_error: 'Feld fehlt', invalid_type_error: 'Kein gültiger Wahrheitswert' }),
+  cancellationDate: dateField().optional(),
+  commission: numberField(),
+});
+
+/**
+ * Schema eines gültigen Buchungsdatensatzes
+ */
+export const bookingSchema = bookingFieldsSchema.superRefine((booking, ctx) => {
+  if (booking.departureDate < booking.arrivalDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['departureDate'],
+      message: 'Abreise liegt vor der Anreise',
+    });
+  }
+});
+
+/**
+ * Schema einer Zeile aus einer Änderungsdatei: alle Felder optional bis auf den Buchungscode
+ */
+export const bookingUpdateSchema = bookingFieldsSchema.partial().required({ bookingCode: true });
+
+export interface RowValidationResult {
+  bookings: BookingData[];
+  issues: ImportIssue[];
+  rowCount: number;
+  invalidRowCount: number;
+}
+
+export interface UpdateValidationResult extends Omit<RowValidationResult, 'bookings'> {
+  updates: BookingUpdate[];
+}
+
+const isEmptyRow = (row: RawRow): boolean => {
+  return Object.values(row).every(value => formatRawValue(value).trim() === '');
+};
+
+const collectValidRows = <T>(
+  rows: RawRow[],
+  mapping: ColumnMapping,
+  firstLine: number,
+  parseRow: (row: RawRow) => z.SafeParseReturnType<unknown, T>
+) => {
+  const headerByField = new Map<BookingField, string>();
+  Object.entries(mapping).forEach(([header, field]) => {
+    if (field) headerByField.set(field, header);
+  });
+
+  const valid: T[] = [];
+  const issues: ImportIssue[] = [];
+  let rowCount = 0;
+  let invalidRowCount = 0;
+
+  rows.forEach((row, index) => {
+    if (isEmptyRow(row)) return;
+    rowCount++;
+
+    const result = parseRow(row);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+
+    invalidRowCount++;
+    result.error.issues.forEach((issue) => {
+      const field = (issue.path[0] as BookingField | undefined) ?? '';
+      const column = field ? headerByField.get(field) ?? '' : '';
+      issues.push({
+        line: firstLine + index,
+        column,
+        field,
+        value: column ? formatRawValue(row[column]) : '',
+        reason: issue.message,
+      });
+    });
+  });
+
+  return { valid, issues, rowCount, invalidRowCount };
+};
+
+/**
+ * Wandelt Rohzeilen um und prüft jede Zeile gegen das Buchungsschema.
+ * firstLine ist die Zeilennummer der ersten Datenzeile in der Quelldatei.
+ */
+export const validateRows = (
+  rows: RawRow[],
+  mapping: ColumnMapping,
+  firstLine = 2,
+  options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS
+): RowValidationResult => {
+  const { valid, ...result } = collectValidRows(rows, mapping, firstLine, row =>
+    bookingSchema.safeParse(mapRowToBooking(row, mapping, options))
+  );
+  return { bookings: valid, ...result };
+};
+
+/**
+ * Wandelt die Zeilen einer Änderungsdatei um und prüft sie gegen das Änderungsschema
+ */
+export const validateUpdateRows = (
+  rows: RawRow[],
+  mapping: ColumnMapping,
+  firstLine = 2,
+  options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS
+): UpdateValidationResult => {
+  const { valid, ...result } = collectValidRows(rows, mapping, firstLine, row =>
+    bookingUpdateSchema.safeParse(mapRowToUpdate(row, mapping, options))
+  );
+  return { updates: valid, ...result };
+};
+
+const formatRecordValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Prüft bereits normalisierte Buchungen aus einer JSON- oder NDJSON-Datei gegen das Buchungsschema
+ */
+export const validateBookingRecords = (records: SerializedRecord[]): RowValidationResult => {
+  const bookings: BookingData[] = [];
+  const issues: ImportIssue[] = [];
+  let invalidRowCount = 0;
+
+  records.forEach(({ line, value, error }) => {
+    if (error || typeof value !== 'object' || value === null || Array.isArray(value)) {
+      invalidRowCount++;
+      issues.push({ line, column: '', field: '', value: '', reason: error ?? 'Kein Buchungsobjekt' });
+      return;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const result = bookingSchema.safeParse(reviveBooking(raw));
+    if (result.success) {
+      bookings.push(result.data);
+      return;
+    }
+
+    invalidRowCount++;
+    result.error.issues.forEach((issue) => {
+      const field = (issue.path[0] as BookingField | undefined) ?? '';
+      issues.push({
+        line,
+        column: field,
+        field,
+        value: field ? formatRecordValue(raw[field]) : '',
+        reason: issue.message,
+      });
+    });
+  });
+
+  return { bookings, issues, rowCount: records.length, invalidRowCount };
+};
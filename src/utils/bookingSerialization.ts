@@ -0,0 +1,92 @@
+import { BookingData } from '../types/booking';
+import { BOOKING_FIELDS } from './columnMapping';
+
+const DATE_FIELDS = ['bookingDate', 'arrivalDate', 'departureDate', 'cancellationDate'] as const;
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') return new Date(value);
+  return undefined;
+};
+
+/**
+ * Stellt die Datumsfelder einer deserialisierten Buchung (ISO-Text oder Zeitstempel) als Date wieder her
+ */
+export const reviveBooking = (raw: Record<string, unknown>): BookingData => {
+  const booking: Record<string, unknown> = { ...raw };
+  DATE_FIELDS.forEach((field) => {
+    const date = toDate(raw[field]);
+    if (date) {
+      booking[field] = date;
+    } else {
+      delete booking[field];
+    }
+  });
+  return booking as unknown as BookingData;
+};
+
+export type BookingExportFormat = 'json' | 'ndjson';
+
+export interface SerializedRecord {
+  // Zeilennummer (NDJSON) bzw. Position in der Liste (JSON), beginnend bei 1
+  line: number;
+  value: unknown;
+  error?: string;
+}
+
+/**
+ * Bringt die Felder einer Buchung in die feste Reihenfolge der Feldliste
+ */
+const orderFields = (booking: BookingData): Record<string, unknown> => {
+  const ordered: Record<string, unknown> = {};
+  BOOKING_FIELDS.forEach(({ field }) => {
+    if (booking[field] !== undefined) {
+      ordered[field] = booking[field];
+    }
+  });
+  return ordered;
+};
+
+/**
+ * Serialisiert Buchungen verlustfrei als JSON-Liste oder NDJSON (eine Buchung pro Zeile)
+ */
+export const serializeBookings = (data: BookingData[], format: BookingExportFormat): string => {
+  if (format === 'ndjson') {
+    return data.map(booking => JSON.stringify(orderFields(booking))).join('\n') + '\n';
+  }
+  return JSON.stringify(data.map(orderFields), null, 2);
+};
+
+/**
+ * Liest eine JSON-Liste, ein einzelnes JSON-Objekt oder NDJSON ein
+ */
+export const parseSerializedBookings = (text: string): SerializedRecord[] => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed === '') return [];
+
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    const values = Array.isArray(parsed) ? parsed : [parsed];
+    return values.map((value, index) => ({ line: index + 1, value }));
+  } catch {
+    // Kein einzelnes JSON-Dokument – zeilenweise als NDJSON lesen
+  }
+
+  const records: SerializedRecord[] = [];
+  trimmed.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      records.push({ line: index + 1, value: JSON.parse(line) });
+    } catch {
+      records.push({ line: index + 1, value: undefined, error: 'Kein gültiges JSON' });
+    }
+  });
+  return records;
+};
+
+/**
+ * Prüft, ob eine Datei normalisierte Buchungsdaten im JSON- oder NDJSON-Format enthält
+ */
+export const isJSONFile = (file: File): boolean => {
+  return /\.(json|ndjson|jsonl)$/i.test(file.name);
+};
@@ -0,0 +1,63 @@
+import { BookingData } from '../types/booking';
+import { BookingUpdate } from '../types/import';
+import { FieldChange, getFieldChanges } from './datasetDiff';
+
+export interface AppliedUpdate {
+  bookingCode: string;
+  changes: FieldChange[];
+}
+
+export interface UpdateResult {
+  data: BookingData[];
+  applied: AppliedUpdate[];
+  unchanged: number;
+  unknownCodes: string[];
+}
+
+export interface FileUpdateLog {
+  fileName: string;
+  rows: number;
+  applied: AppliedUpdate[];
+  unchanged: number;
+  unknownCodes: string[];
+}
+
+/**
+ * Wendet die Zeilen einer Änderungsdatei anhand des Buchungscodes auf einen Datensatz an
+ */
+export const applyBookingUpdates = (data: BookingData[], updates: BookingUpdate[]): UpdateResult => {
+  const patched = [...data];
+  const indexByCode = new Map<string, number>();
+  patched.forEach((booking, index) => {
+    if (booking.bookingCode) {
+      indexByCode.set(booking.bookingCode, index);
+    }
+  });
+
+  const applied: AppliedUpdate[] = [];
+  const unknownCodes: string[] = [];
+  let unchanged = 0;
+
+  updates.forEach((update) => {
+    const index = indexByCode.get(update.bookingCode);
+    if (index === undefined) {
+      if (!unknownCodes.includes(update.bookingCode)) {
+        unknownCodes.push(update.bookingCode);
+      }
+      return;
+    }
+
+    const before = patched[index];
+    const after = { ...before, ...update };
+    const changes = getFieldChanges(before, after);
+    if (changes.length === 0) {
+      unchanged++;
+      return;
+    }
+
+    patched[index] = after;
+    applied.push({ bookingCode: update.bookingCode, changes });
+  });
+
+  return { data: patched, applied, unchanged, unknownCodes };
+};
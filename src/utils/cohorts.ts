@@ -0,0 +1,108 @@
+import { differenceInCalendarDays, differenceInCalendarMonths, format } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { effectiveRevenue, groupBookings, median, safeDivide } from './metrics';
+import { getObservationDate } from './pace';
+
+export type CohortMetric = 'cancellationRate' | 'revenue' | 'revenueShare';
+
+export interface CohortRow {
+  // Buchungsmonat im Format yyyy-MM
+  cohort: string;
+  bookings: number;
+  cancelled: number;
+  cancellationRate: number;
+  medianDaysToCancel: number | null;
+  revenue: number;
+  // Wert je Monat nach Buchung; null, wenn der Monat noch nicht beobachtet werden konnte
+  cells: (number | null)[];
+}
+
+export interface CohortMatrix {
+  offsets: number[];
+  rows: CohortRow[];
+}
+
+export const COHORT_METRICS: { value: CohortMetric; label: string; description: string }[] = [
+  { value: 'cancellationRate', label: 'Stornoquote kumuliert', description: 'Anteil der Kohorte, der bis zum jeweiligen Monat storniert wurde' },
+  { value: 'revenue', label: 'Umsatz nach Anreisemonat', description: 'Umsatz der Kohorte nach Monaten zwischen Buchung und Anreise' },
+  { value: 'revenueShare', label: 'Umsatzanteil nach Anreisemonat', description: 'Anteil am Umsatz der Kohorte nach Monaten zwischen Buchung und Anreise' },
+];
+
+// Spätere Monate werden in der letzten Spalte zusammengefasst
+export const MAX_COHORT_OFFSET = 24;
+
+const monthsAfterBooking = (booking: BookingData, date: Date) => {
+  return Math.min(MAX_COHORT_OFFSET, Math.max(0, differenceInCalendarMonths(date, booking.bookingDate)));
+};
+
+/**
+ * Kohortenmatrix nach Buchungsmonat × Monaten seit Buchung
+ */
+export const buildCohortMatrix = (bookings: BookingData[], metric: CohortMetric): CohortMatrix => {
+  const observationDate = getObservationDate(bookings);
+  const cohorts = groupBookings(bookings, booking => format(booking.bookingDate, 'yyyy-MM'));
+  let maxOffset = 0;
+
+  const rows = Array.from(cohorts)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cohort, group]): Omit<CohortRow, 'cells'> & { counts: number[]; observedMonths: number } => {
+      const counts = Array.from({ length: MAX_COHORT_OFFSET + 1 }, () => 0);
+      const cancelled = group.filter(booking => booking.cancelled);
+
+      if (metric === 'cancellationRate') {
+        cancelled.forEach((booking) => {
+          // Stornierungen ohne Datum zählen in der Quote, lassen sich aber keinem Monat zuordnen
+          if (booking.cancellationDate) counts[monthsAfterBooking(booking, booking.cancellationDate)]++;
+        });
+      } else {
+        group.forEach((booking) => {
+          counts[monthsAfterBooking(booking, booking.arrivalDate)] += effectiveRevenue(booking);
+        });
+      }
+
+      const lastIndex = counts.reduce((last, value, index) => (value !== 0 ? index : last), 0);
+      const observedMonths = observationDate
+        ? Math.min(MAX_COHORT_OFFSET, differenceInCalendarMonths(observationDate, group[0].bookingDate))
+        : 0;
+      maxOffset = Math.max(maxOffset, lastIndex, metric === 'cancellationRate' ? observedMonths : 0);
+
+      const daysToCancel = cancelled
+        .filter(booking => booking.cancellationDate)
+        .map(booking => Math.max(0, differenceInCalendarDays(booking.cancellationDate!, booking.bookingDate)));
+
+      return {
+        cohort,
+        bookings: group.length,
+        cancelled: cancelled.length,
+        cancellationRate: safeDivide(cancelled.length, group.length),
+        medianDaysToCancel: daysToCancel.length > 0 ? median(daysToCancel) : null,
+        revenue: group.reduce((sum, booking) => sum + effectiveRevenue(booking), 0),
+        counts,
+        observedMonths,
+      };
+    });
+
+  const offsets = Array.from({ length: maxOffset + 1 }, (_, index) => index);
+
+  return {
+    offsets,
+    rows: rows.map(({ counts, observedMonths, ...row }) => {
+      let cumulative = 0;
+      const cells = offsets.map((offset) => {
+        if (metric === 'revenue') return counts[offset];
+        if (metric === 'revenueShare') return safeDivide(counts[offset], row.revenue);
+        cumulative += counts[offset];
+        // Zukünftige Monate sind noch nicht beobachtbar und bleiben leer
+        return offset <= observedMonths ? safeDivide(cumulative, row.bookings) : null;
+      });
+      return { ...row, cells };
+    }),
+  };
+};
+
+/**
+ * Jahre, in denen Buchungen eingegangen sind, absteigend
+ */
+export const getBookingYears = (bookings: BookingData[]): number[] => {
+  return Array.from(new Set(bookings.map(booking => booking.bookingDate.getFullYear()))).sort((a, b) => b - a);
+};
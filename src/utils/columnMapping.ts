@@ -0,0 +1,165 @@
+import { BookingField, BookingFieldDefinition, ColumnMapping, RawTable } from '../types/import';
+import { formatRawValue } from './bookingConversion';
+
+/**
+ * Alle Felder von BookingData, denen eine Spalte zugeordnet werden kann
+ */
+export const BOOKING_FIELDS: BookingFieldDefinition[] = [
+  { field: 'bookingCode', label: 'Buchungscode', required: true },
+  { field: 'bookingDate', label: 'Buchungsdatum', required: true },
+  { field: 'bookingTime', label: 'Buchungszeit', required: false },
+  { field: 'arrivalDate', label: 'Anreise', required: true },
+  { field: 'departureDate', label: 'Abreise', required: true },
+  { field: 'serviceCity', label: 'Stadt (Service)', required: false },
+  { field: 'serviceName', label: 'Unterkunft', required: false },
+  { field: 'serviceRegion', label: 'Region (Service)', required: false },
+  { field: 'region', label: 'Region', required: false },
+  { field: 'totalPrice', label: 'Gesamtpreis', required: true },
+  { field: 'adults', label: 'Erwachsene', required: false },
+  { field: 'children', label: 'Kinder', required: false },
+  { field: 'persons', label: 'Personen', required: false },
+  { field: 'country', label: 'Land (Kunde)', required: false },
+  { field: 'postalCode', label: 'PLZ (Kunde)', required: false },
+  { field: 'city', label: 'Stadt (Kunde)', required: false },
+  { field: 'serviceCountry', label: 'Land (Service)', required: false },
+  { field: 'cancelled', label: 'Storniert', required: false },
+  { field: 'cancellationDate', label: 'Stornodatum', required: false },
+  { field: 'commission', label: 'Provision', required: true },
+];
+
+export const REQUIRED_FIELDS: BookingField[] = BOOKING_FIELDS
+  .filter(definition => definition.required)
+  .map(definition => definition.field);
+
+// Änderungsdateien enthalten nur den Buchungscode und die geänderten Felder
+export const UPDATE_REQUIRED_FIELDS: BookingField[] = ['bookingCode'];
+
+/**
+ * Spaltenüberschriften des Standard-Exports
+ */
+export const DEFAULT_HEADER_MAP: Record<string, BookingField> = {
+  'BookingCode': 'bookingCode',
+  'Buchungsdatum': 'bookingDate',
+  'Anreise': 'arrivalDate',
+  'Abreise': 'departureDate',
+  'ServiceCity': 'serviceCity',
+  'Service Name (SolR)': 'serviceName',
+  'Region': 'region',
+  'Gesamtpreis': 'totalPrice',
+  'Erw.': 'adults',
+  'Kinder': 'children',
+  'Personen': 'persons',
+  'Land': 'country',
+  'PLZ': 'postalCode',
+  'Stadt': 'city',
+  'ServiceCountry': 'serviceCountry',
+  'Storniert': 'cancelled',
+  'Stornodatum': 'cancellationDate',
+  'Vertriebsprovision Netto': 'commission',
+};
+
+/**
+ * Erzeugt eine von der Spaltenreihenfolge unabhängige Signatur der Überschriften
+ */
+export const getHeaderSignature = (headers: string[]): string => {
+  return headers
+    .map(header => header.trim())
+    .filter(header => header !== '')
+    .sort()
+    .join('|');
+};
+
+/**
+ * Schlägt eine Zuordnung anhand des Standard-Exports und der Feldnamen vor
+ */
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const usedFields = new Set<BookingField>();
+
+  headers.forEach(header => {
+    const trimmed = header.trim();
+    const field = DEFAULT_HEADER_MAP[trimmed]
+      ?? BOOKING_FIELDS.find(definition => definition.field.toLowerCase() === trimmed.toLowerCase())?.field;
+
+    if (field && !usedFields.has(field)) {
+      mapping[header] = field;
+      usedFields.add(field);
+    } else {
+      mapping[header] = '';
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Übernimmt eine gespeicherte Zuordnung für die aktuellen Überschriften
+ */
+export const applyMapping = (headers: string[], saved: ColumnMapping): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  headers.forEach(header => {
+    mapping[header] = saved[header] ?? '';
+  });
+  return mapping;
+};
+
+/**
+ * Liefert die deutsche Bezeichnung eines Buchungsfelds
+ */
+export const getFieldLabel = (field: BookingField): string => {
+  return BOOKING_FIELDS.find(definition => definition.field === field)?.label ?? field;
+};
+
+/**
+ * Liefert die Pflichtfelder, denen noch keine Spalte zugeordnet ist
+ */
+export const getMissingRequiredFields = (
+  mapping: ColumnMapping,
+  requiredFields: BookingField[] = REQUIRED_FIELDS
+): BookingFieldDefinition[] => {
+  const mappedFields = new Set(Object.values(mapping));
+  return BOOKING_FIELDS.filter(
+    definition => requiredFields.includes(definition.field) && !mappedFields.has(definition.field)
+  );
+};
+
+/**
+ * Liefert die Felder, denen mehr als eine Spalte zugeordnet ist
+ */
+export const getDuplicateFields = (mapping: ColumnMapping): BookingField[] => {
+  const counts = new Map<BookingField, number>();
+  Object.values(mapping).forEach(field => {
+    if (field) {
+      counts.set(field, (counts.get(field) ?? 0) + 1);
+    }
+  });
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([field]) => field);
+};
+
+/**
+ * Sammelt pro Spalte die ersten nicht-leeren Beispielwerte
+ */
+export const getSampleValues = (table: RawTable, limit = 3): Record<string, string[]> => {
+  const samples: Record<string, string[]> = {};
+  table.headers.forEach(header => {
+    samples[header] = [];
+  });
+
+  for (const row of table.rows) {
+    let complete = true;
+    table.headers.forEach(header => {
+      const value = formatRawValue(row[header]).trim();
+      if (samples[header].length < limit) {
+        complete = false;
+        if (value !== '') {
+          samples[header].push(value);
+        }
+      }
+    });
+    if (complete) break;
+  }
+
+  return samples;
+};
@@ -0,0 +1,97 @@
+import Papa from 'papaparse';
+import { CSVEncoding, CSVFormat, DecimalSeparator } from '../types/import';
+
+// Die ersten 64 KB reichen für eine verlässliche Erkennung
+const SAMPLE_BYTES = 64 * 1024;
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ';', label: 'Semikolon (;)' },
+  { value: ',', label: 'Komma (,)' },
+  { value: '\t', label: 'Tabulator' },
+  { value: '|', label: 'Senkrechter Strich (|)' },
+];
+
+export const CSV_ENCODINGS: { value: CSVEncoding; label: string }[] = [
+  { value: 'UTF-8', label: 'UTF-8' },
+  { value: 'UTF-8-BOM', label: 'UTF-8 mit BOM' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'ISO-8859-1', label: 'ISO-8859-1' },
+];
+
+export const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+  { value: ',', label: 'Deutsch (1.234,56)' },
+  { value: '.', label: 'Englisch (1,234.56)' },
+];
+
+export const DEFAULT_CSV_FORMAT: CSVFormat = {
+  delimiter: ';',
+  encoding: 'UTF-8',
+  decimalSeparator: ',',
+};
+
+const GERMAN_NUMBER_PATTERNS = [/^-?\d{1,3}(\.\d{3})+(,\d+)?$/, /^-?\d+,\d+$/];
+const ENGLISH_NUMBER_PATTERNS = [/^-?\d{1,3}(,\d{3})+(\.\d+)?$/, /^-?\d+\.\d{1,2}$/];
+
+/**
+ * Erkennt den Zeichensatz anhand von BOM und UTF-8-Gültigkeit
+ */
+export const detectEncoding = (bytes: Uint8Array): CSVEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'UTF-8-BOM';
+  }
+  try {
+    // stream: true, damit ein am Probenende abgeschnittenes Zeichen nicht als Fehler gilt
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'UTF-8';
+  } catch {
+    // 0x80–0x9F sind in ISO-8859-1 Steuerzeichen, in Windows-1252 u. a. €, „ und “
+    return bytes.some(byte => byte >= 0x80 && byte <= 0x9f) ? 'windows-1252' : 'ISO-8859-1';
+  }
+};
+
+/**
+ * Erkennt das Trennzeichen anhand der ersten Zeilen
+ */
+export const detectDelimiter = (text: string): string => {
+  const result = Papa.parse(text, {
+    preview: 20,
+    delimitersToGuess: CSV_DELIMITERS.map(delimiter => delimiter.value),
+  });
+  return result.meta.delimiter || DEFAULT_CSV_FORMAT.delimiter;
+};
+
+/**
+ * Erkennt anhand von Zahlenwerten, ob Komma oder Punkt das Dezimaltrennzeichen ist
+ */
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator => {
+  let german = 0;
+  let english = 0;
+  values.forEach((value) => {
+    const trimmed = value.replace(/[\s€]/g, '');
+    if (GERMAN_NUMBER_PATTERNS.some(pattern => pattern.test(trimmed))) german++;
+    if (ENGLISH_NUMBER_PATTERNS.some(pattern => pattern.test(trimmed))) english++;
+  });
+  return english > german ? '.' : ',';
+};
+
+/**
+ * Gibt den Zeichensatz so zurück, wie ihn FileReader bzw. Papa.parse erwartet
+ */
+export const toReaderEncoding = (encoding: CSVEncoding): string => {
+  return encoding === 'UTF-8-BOM' ? 'UTF-8' : encoding;
+};
+
+/**
+ * Erkennt Zeichensatz, Trennzeichen und Zahlenformat einer CSV-Datei
+ */
+export const sniffCSVFormat = async (file: File): Promise<CSVFormat> => {
+  const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const encoding = detectEncoding(bytes);
+  const text = new TextDecoder(toReaderEncoding(encoding)).decode(bytes);
+  const delimiter = detectDelimiter(text);
+
+  const rows = Papa.parse<string[]>(text, { delimiter, preview: 200, skipEmptyLines: 'greedy' }).data;
+  const decimalSeparator = detectDecimalSeparator(rows.slice(1).flat());
+
+  return { delimiter, encoding, decimalSeparator };
+};
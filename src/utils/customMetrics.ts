@@ -0,0 +1,54 @@
+import { BookingData } from '../types/booking';
+import { CustomMetric, CustomMetricFormat } from '../types/customMetric';
+import { evaluateFormula, parseFormula } from './formula';
+import { formatCurrency, formatNumber, formatPercentage } from './formatters';
+
+const STORAGE_KEY = 'csv-analytics-dashboard:custom-metrics';
+
+export const CUSTOM_METRIC_FORMATS: { value: CustomMetricFormat; label: string }[] = [
+  { value: 'number', label: 'Zahl' },
+  { value: 'currency', label: 'Währung' },
+  { value: 'percent', label: 'Prozent' },
+];
+
+/**
+ * Lädt die gespeicherten eigenen Kennzahlen
+ */
+export const loadCustomMetrics = (): CustomMetric[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as CustomMetric[]) : [];
+  } catch (error) {
+    console.error('Fehler beim Laden der eigenen Kennzahlen:', error);
+    return [];
+  }
+};
+
+/**
+ * Speichert die eigenen Kennzahlen
+ */
+export const saveCustomMetrics = (metrics: CustomMetric[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(metrics));
+  } catch (error) {
+    console.error('Fehler beim Speichern der eigenen Kennzahlen:', error);
+  }
+};
+
+/**
+ * Berechnet eine eigene Kennzahl; NaN bei ungültiger Formel oder nicht berechenbarem Wert
+ */
+export const calculateCustomMetric = (metric: CustomMetric, bookings: BookingData[]): number => {
+  const parsed = parseFormula(metric.formula);
+  return parsed.ok ? evaluateFormula(parsed.node, bookings) : NaN;
+};
+
+/**
+ * Formatiert den Wert einer eigenen Kennzahl; nicht berechenbare Werte als Strich
+ */
+export const formatCustomMetric = (value: number, format: CustomMetricFormat): string => {
+  if (!Number.isFinite(value)) return '–';
+  if (format === 'currency') return formatCurrency(value);
+  if (format === 'percent') return formatPercentage(value);
+  return formatNumber(Math.round(value * 100) / 100);
+};
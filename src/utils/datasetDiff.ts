@@ -0,0 +1,140 @@
+import { BookingData } from '../types/booking';
+import { BookingField } from '../types/import';
+import { BOOKING_FIELDS } from './columnMapping';
+import { effectiveCommission, effectiveRevenue } from './metrics';
+
+export interface FieldChange {
+  field: BookingField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ModifiedBooking {
+  bookingCode: string;
+  before: BookingData;
+  after: BookingData;
+  changes: FieldChange[];
+  revenueImpact: number;
+  commissionImpact: number;
+}
+
+export interface DatasetDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  newlyCancelled: number;
+  revenueImpact: number;
+  commissionImpact: number;
+  addedRevenue: number;
+  removedRevenue: number;
+  modifiedRevenueImpact: number;
+}
+
+export interface DatasetDiff {
+  added: BookingData[];
+  removed: BookingData[];
+  modified: ModifiedBooking[];
+  summary: DatasetDiffSummary;
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return false;
+  }
+  return a === b;
+};
+
+const indexByCode = (data: BookingData[]): Map<string, BookingData> => {
+  const index = new Map<string, BookingData>();
+  data.forEach((booking) => {
+    if (booking.bookingCode) {
+      index.set(booking.bookingCode, booking);
+    }
+  });
+  return index;
+};
+
+/**
+ * Liefert die Felder, in denen sich zwei Versionen einer Buchung unterscheiden
+ */
+export const getFieldChanges = (before: BookingData, after: BookingData): FieldChange[] => {
+  return BOOKING_FIELDS
+    .filter(({ field }) => !isSameValue(before[field], after[field]))
+    .map(({ field }) => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * Vergleicht zwei Datensätze anhand des Buchungscodes
+ */
+export const diffDatasets = (base: BookingData[], compare: BookingData[]): DatasetDiff => {
+  const baseIndex = indexByCode(base);
+  const compareIndex = indexByCode(compare);
+
+  const added: BookingData[] = [];
+  const removed: BookingData[] = [];
+  const modified: ModifiedBooking[] = [];
+  let unchanged = 0;
+  let newlyCancelled = 0;
+
+  compareIndex.forEach((after, bookingCode) => {
+    const before = baseIndex.get(bookingCode);
+    if (!before) {
+      added.push(after);
+      return;
+    }
+
+    const changes = getFieldChanges(before, after);
+    if (changes.length === 0) {
+      unchanged++;
+      return;
+    }
+
+    if (!before.cancelled && after.cancelled) {
+      newlyCancelled++;
+    }
+    modified.push({
+      bookingCode,
+      before,
+      after,
+      changes,
+      revenueImpact: effectiveRevenue(after) - effectiveRevenue(before),
+      commissionImpact: effectiveCommission(after) - effectiveCommission(before),
+    });
+  });
+
+  baseIndex.forEach((before, bookingCode) => {
+    if (!compareIndex.has(bookingCode)) {
+      removed.push(before);
+    }
+  });
+
+  const sum = (bookings: BookingData[], value: (booking: BookingData) => number) =>
+    bookings.reduce((total, booking) => total + value(booking), 0);
+
+  const addedRevenue = sum(added, effectiveRevenue);
+  const removedRevenue = sum(removed, effectiveRevenue);
+  const modifiedRevenueImpact = modified.reduce((total, change) => total + change.revenueImpact, 0);
+  const modifiedCommissionImpact = modified.reduce((total, change) => total + change.commissionImpact, 0);
+
+  return {
+    added,
+    removed,
+    modified,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      modified: modified.length,
+      unchanged,
+      newlyCancelled,
+      revenueImpact: addedRevenue - removedRevenue + modifiedRevenueImpact,
+      commissionImpact: sum(added, effectiveCommission) - sum(removed, effectiveCommission) + modifiedCommissionImpact,
+      addedRevenue,
+      removedRevenue,
+      modifiedRevenueImpact,
+    },
+  };
+};
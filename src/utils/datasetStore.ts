@@ -0,0 +1,123 @@
+import localforage from 'localforage';
+import { BookingData } from '../types/booking';
+import { DatasetMeta } from '../types/dataset';
+import { reviveBooking } from './bookingSerialization';
+
+const store = localforage.createInstance({
+  name: 'csv-analytics-dashboard',
+  storeName: 'datasets',
+});
+
+const INDEX_KEY = 'index';
+const ACTIVE_DATASET_KEY = 'csv-analytics-dashboard:active-dataset';
+
+const rowsKey = (id: string) => `rows:${id}`;
+
+const loadIndex = async (): Promise<DatasetMeta[]> => {
+  return (await store.getItem<DatasetMeta[]>(INDEX_KEY)) ?? [];
+};
+
+const saveIndex = async (index: DatasetMeta[]) => {
+  await store.setItem(INDEX_KEY, index);
+};
+
+/**
+ * Listet alle gespeicherten Datensätze, neueste zuerst
+ */
+export const listDatasets = async (): Promise<DatasetMeta[]> => {
+  const index = await loadIndex();
+  return [...index].sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+};
+
+/**
+ * Speichert einen neu importierten Datensatz
+ */
+export const saveDataset = async (
+  name: string,
+  sourceFiles: string[],
+  data: BookingData[],
+  anonymized = false
+): Promise<DatasetMeta> => {
+  const meta: DatasetMeta = {
+    id: crypto.randomUUID(),
+    name,
+    importedAt: new Date().toISOString(),
+    sourceFiles,
+    rowCount: data.length,
+    anonymized,
+  };
+  await store.setItem(rowsKey(meta.id), data);
+  await saveIndex([...(await loadIndex()), meta]);
+  return meta;
+};
+
+/**
+ * Ersetzt die Buchungen eines gespeicherten Datensatzes, z. B. nach dem Anhängen weiterer Dateien
+ */
+export const updateDataset = async (
+  id: string,
+  data: BookingData[],
+  sourceFiles: string[] = [],
+  anonymized = false
+): Promise<DatasetMeta | undefined> => {
+  const index = await loadIndex();
+  const existing = index.find(meta => meta.id === id);
+  if (!existing) return undefined;
+
+  const updated: DatasetMeta = {
+    ...existing,
+    updatedAt: new Date().toISOString(),
+    sourceFiles: [...existing.sourceFiles, ...sourceFiles.filter(file => !existing.sourceFiles.includes(file))],
+    rowCount: data.length,
+    anonymized: existing.anonymized || anonymized,
+  };
+  await store.setItem(rowsKey(id), data);
+  await saveIndex(index.map(meta => (meta.id === id ? updated : meta)));
+  return updated;
+};
+
+/**
+ * Lädt die Buchungen eines gespeicherten Datensatzes
+ */
+export const loadDataset = async (id: string): Promise<BookingData[]> => {
+  const rows = await store.getItem<Record<string, unknown>[]>(rowsKey(id));
+  // Je nach Speichertreiber kommen Datumswerte als Text zurück
+  return (rows ?? []).map(reviveBooking);
+};
+
+/**
+ * Benennt einen gespeicherten Datensatz um
+ */
+export const renameDataset = async (id: string, name: string) => {
+  const index = await loadIndex();
+  await saveIndex(index.map(meta => (meta.id === id ? { ...meta, name } : meta)));
+};
+
+/**
+ * Löscht einen gespeicherten Datensatz
+ */
+export const deleteDataset = async (id: string) => {
+  await store.removeItem(rowsKey(id));
+  await saveIndex((await loadIndex()).filter(meta => meta.id !== id));
+  if (getActiveDatasetId() === id) {
+    setActiveDatasetId(null);
+  }
+};
+
+/**
+ * Liefert den zuletzt geöffneten Datensatz
+ */
+export const getActiveDatasetId = (): string | null => {
+  return localStorage.getItem(ACTIVE_DATASET_KEY);
+};
+
+/**
+ * Merkt sich den geöffneten Datensatz für den nächsten Seitenaufruf
+ */
+export const setActiveDatasetId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_DATASET_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_DATASET_KEY);
+  }
+};
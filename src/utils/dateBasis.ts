@@ -0,0 +1,58 @@
+import { BookingData } from '../types/booking';
+
+/**
+ * Datumsfeld, nach dem alle Filter, Kennzahlen, Tabellen und Diagramme auswerten
+ */
+export type DateBasis = 'bookingDate' | 'arrivalDate' | 'departureDate' | 'cancellationDate';
+
+const STORAGE_KEY = 'csv-analytics-dashboard:date-basis';
+
+export const DEFAULT_DATE_BASIS: DateBasis = 'arrivalDate';
+
+export const DATE_BASIS_OPTIONS: { value: DateBasis; label: string }[] = [
+  { value: 'bookingDate', label: 'Buchungsdatum' },
+  { value: 'arrivalDate', label: 'Anreisedatum' },
+  { value: 'departureDate', label: 'Abreisedatum' },
+  { value: 'cancellationDate', label: 'Stornierungsdatum' },
+];
+
+/**
+ * Liefert das Datum einer Buchung für die gewählte Datumsbasis; ohne Stornierungsdatum undefined
+ */
+export const getBasisDate = (booking: BookingData, basis: DateBasis): Date | undefined => {
+  const value = booking[basis];
+  return value ? new Date(value) : undefined;
+};
+
+/**
+ * Bezeichnung einer Datumsbasis für Überschriften und Hinweise
+ */
+export const getDateBasisLabel = (basis: DateBasis): string => {
+  return DATE_BASIS_OPTIONS.find(option => option.value === basis)?.label ?? basis;
+};
+
+/**
+ * Lädt die zuletzt gewählte Datumsbasis
+ */
+export const loadDateBasis = (): DateBasis => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (DATE_BASIS_OPTIONS.some(option => option.value === stored)) {
+      return stored as DateBasis;
+    }
+  } catch (error) {
+    console.error('Fehler beim Laden der Datumsbasis:', error);
+  }
+  return DEFAULT_DATE_BASIS;
+};
+
+/**
+ * Speichert die gewählte Datumsbasis
+ */
+export const saveDateBasis = (basis: DateBasis): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, basis);
+  } catch (error) {
+    console.error('Fehler beim Speichern der Datumsbasis:', error);
+  }
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { utils } from 'xlsx';
+import { sheetToTable } from './excelImport';
+import { mapRowToBooking } from './bookingConversion';
+import { getPostalArea } from './sourceMarkets';
+import { ColumnMapping } from '../types/import';
+
+const mapping: ColumnMapping = { Buchungscode: 'bookingCode', PLZ: 'postalCode', Land: 'country' };
+
+const createWorkbook = (rows: (string | number)[][], postalCodeFormat?: string) => {
+  const sheet = utils.aoa_to_sheet([['Buchungscode', 'PLZ', 'Land'], ...rows]);
+  if (postalCodeFormat) {
+    rows.forEach((_, index) => {
+      const cell = sheet[utils.encode_cell({ r: index + 1, c: 1 })];
+      cell.z = postalCodeFormat;
+      delete cell.w;
+    });
+  }
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, sheet, 'Buchungen');
+  return workbook;
+};
+
+describe('sheetToTable', () => {
+  it('übernimmt Zahlen im PLZ-Format mit führender Null als Text', () => {
+    const table = sheetToTable(createWorkbook([['B-1', 1067, 'Deutschland']], '00000'), 'Buchungen');
+    expect(table.rows[0].PLZ).toBe('01067');
+  });
+
+  it('lässt andere Zahlen unverändert', () => {
+    const table = sheetToTable(createWorkbook([['B-1', 20095, 'Deutschland']]), 'Buchungen');
+    expect(table.rows[0].PLZ).toBe(20095);
+  });
+});
+
+describe('Postleitzahlen aus Excel', () => {
+  it('füllt als Zahl gespeicherte deutsche Postleitzahlen auf fünf Stellen auf', () => {
+    const table = sheetToTable(createWorkbook([['B-1', 1067, 'Deutschland']]), 'Buchungen');
+    const booking = mapRowToBooking(table.rows[0], mapping);
+    expect(booking.postalCode).toBe('01067');
+    expect(getPostalArea(booking)).toBe('01');
+  });
+
+  it('lässt vierstellige Postleitzahlen anderer Länder unverändert', () => {
+    const table = sheetToTable(createWorkbook([['B-1', 1010, 'AT']]), 'Buchungen');
+    expect(mapRowToBooking(table.rows[0], mapping).postalCode).toBe('1010');
+  });
+
+  it('ordnet bereits gespeicherte vierstellige deutsche PLZ dem richtigen Gebiet zu', () => {
+    const booking = mapRowToBooking({ Buchungscode: 'B-1', PLZ: '20095', Land: 'DE' }, mapping);
+    expect(getPostalArea({ ...booking, postalCode: '1067' })).toBe('01');
+  });
+});
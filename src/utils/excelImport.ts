@@ -0,0 +1,62 @@
+import { read, utils, WorkBook } from 'xlsx';
+import { RawRow, RawTable, RawValue } from '../types/import';
+
+/**
+ * Liest eine Excel-Arbeitsmappe (.xlsx/.xls) ein
+ */
+export const readWorkbook = async (file: File): Promise<WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  // Datumszellen bleiben Seriennummern und werden erst bei der Typumwandlung konvertiert
+  return read(buffer, { type: 'array', cellDates: false });
+};
+
+/**
+ * Wandelt ein Tabellenblatt in Überschriften und Rohzeilen um
+ */
+export const sheetToTable = (workbook: WorkBook, sheetName: string): RawTable => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const matrix = utils.sheet_to_json<RawValue[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: null,
+    // Leerzeilen erst bei der Prüfung überspringen, damit die Zeilennummern stimmen
+    blankrows: true,
+  });
+  // Zahlen, die mit führender Null angezeigt werden (z. B. PLZ im Format 00000), als angezeigten Text übernehmen
+  const range = utils.decode_range(sheet['!ref'] ?? 'A1');
+  matrix.forEach((cells, rowIndex) => {
+    cells.forEach((value, columnIndex) => {
+      if (typeof value !== 'number') return;
+      const cell = sheet[utils.encode_cell({ r: range.s.r + rowIndex, c: range.s.c + columnIndex })];
+      const text = cell ? utils.format_cell(cell) : '';
+      if (/^0\d+$/.test(text)) cells[columnIndex] = text;
+    });
+  });
+  const [headerRow = [], ...body] = matrix;
+
+  const headers = headerRow.map((header, index) => {
+    const name = header === null ? '' : String(header).trim();
+    return name || `Spalte ${index + 1}`;
+  });
+
+  const rows = body.map((cells) => {
+    const row: RawRow = {};
+    headers.forEach((header, index) => {
+      row[header] = cells[index] ?? null;
+    });
+    return row;
+  });
+
+  return { headers, rows };
+};
+
+/**
+ * Prüft anhand der Dateiendung, ob es sich um eine Excel-Datei handelt
+ */
+export const isExcelFile = (file: File): boolean => {
+  return /\.(xlsx|xls)$/i.test(file.name);
+};
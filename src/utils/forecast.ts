@@ -0,0 +1,171 @@
+import { addDays, addMonths, differenceInCalendarDays, endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { groupBookings, median, quantile } from './metrics';
+import { getObservationDate, isOnTheBooks } from './pace';
+
+export type ForecastMetric = 'revenue' | 'commission' | 'bookings';
+
+export type ForecastTotals = Record<ForecastMetric, number>;
+
+export interface MonthForecast {
+  // Anreisemonat im Format yyyy-MM
+  month: string;
+  onTheBooks: ForecastTotals;
+  forecast: ForecastTotals;
+  lower: ForecastTotals;
+  upper: ForecastTotals;
+  // Anzahl der Vergleichsmonate, aus denen der Zuwachs gelernt wurde
+  samples: number;
+  // true, wenn nur derselbe Kalendermonat früherer Jahre verwendet wurde
+  seasonal: boolean;
+}
+
+export interface BacktestRow {
+  month: string;
+  asOf: Date;
+  forecast: number;
+  lower: number;
+  upper: number;
+  actual: number;
+}
+
+export const FORECAST_METRICS: { value: ForecastMetric; label: string }[] = [
+  { value: 'revenue', label: 'Umsatz' },
+  { value: 'commission', label: 'Provision' },
+  { value: 'bookings', label: 'Buchungen' },
+];
+
+// Vertrauensband aus dem 10. bis 90. Perzentil der historischen Zuwächse
+const LOWER_QUANTILE = 0.1;
+const UPPER_QUANTILE = 0.9;
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+const sumOnTheBooks = (bookings: BookingData[], asOf: Date): ForecastTotals => {
+  const totals: ForecastTotals = { revenue: 0, commission: 0, bookings: 0 };
+  bookings.forEach((booking) => {
+    if (!isOnTheBooks(booking, asOf)) return;
+    totals.revenue += booking.totalPrice;
+    totals.commission += booking.commission;
+    totals.bookings++;
+  });
+  return totals;
+};
+
+const mapTotals = (getValue: (metric: ForecastMetric) => number): ForecastTotals => ({
+  revenue: getValue('revenue'),
+  commission: getValue('commission'),
+  bookings: getValue('bookings'),
+});
+
+/**
+ * Prognostiziert einen Anreisemonat nach der Pickup-Methode: aktueller Bestand plus der Zuwachs,
+ * den vergleichbare Monate früher im gleichen Abstand vor Monatsbeginn noch erhalten haben.
+ * Endstand eines Vergleichsmonats ist der Bestand am Monatsende.
+ */
+const forecastMonth = (
+  byMonth: Map<string, BookingData[]>,
+  month: Date,
+  asOf: Date,
+  historyEnd: Date
+): MonthForecast => {
+  const leadDays = differenceInCalendarDays(startOfMonth(month), asOf);
+  const onTheBooks = sumOnTheBooks(byMonth.get(monthKey(month)) ?? [], asOf);
+
+  // Nur Monate, die zum Zeitpunkt der Prognose vollständig abgeschlossen waren
+  const history = Array.from(byMonth.keys())
+    .map(key => parseISO(`${key}-01`))
+    .filter(candidate => endOfMonth(candidate) < historyEnd && candidate < startOfMonth(month));
+  const sameMonth = history.filter(candidate => candidate.getMonth() === month.getMonth());
+  const seasonal = sameMonth.length > 0;
+  const comparable = seasonal ? sameMonth : history;
+
+  const pickups = comparable.map((candidate) => {
+    const bookings = byMonth.get(monthKey(candidate)) ?? [];
+    const before = sumOnTheBooks(bookings, addDays(startOfMonth(candidate), -leadDays));
+    const final = sumOnTheBooks(bookings, endOfMonth(candidate));
+    return mapTotals(metric => final[metric] - before[metric]);
+  });
+
+  const estimate = (metric: ForecastMetric, pick: (values: number[]) => number) => {
+    if (pickups.length === 0) return onTheBooks[metric];
+    // Der Bestand kann durch Stornierungen sinken, aber nie unter 0 fallen
+    return Math.max(0, onTheBooks[metric] + pick(pickups.map(pickup => pickup[metric])));
+  };
+
+  return {
+    month: monthKey(month),
+    onTheBooks,
+    forecast: mapTotals(metric => estimate(metric, median)),
+    lower: mapTotals(metric => estimate(metric, values => quantile(values, LOWER_QUANTILE))),
+    upper: mapTotals(metric => estimate(metric, values => quantile(values, UPPER_QUANTILE))),
+    samples: pickups.length,
+    seasonal,
+  };
+};
+
+/**
+ * Prognose für die kommenden Anreisemonate ab dem Stichtag
+ */
+export const forecastMonths = (bookings: BookingData[], asOf: Date, monthsAhead: number): MonthForecast[] => {
+  const byMonth = groupBookings(bookings, booking => monthKey(booking.arrivalDate));
+  return Array.from({ length: monthsAhead }, (_, index) =>
+    forecastMonth(byMonth, addMonths(startOfMonth(asOf), index), asOf, asOf)
+  );
+};
+
+/**
+ * Rückblickender Test: Prognose abgeschlossener Monate aus Sicht von leadDays vor Monatsbeginn
+ */
+export const backtestForecast = (
+  bookings: BookingData[],
+  metric: ForecastMetric,
+  leadDays: number,
+  months: number
+): BacktestRow[] => {
+  const observationDate = getObservationDate(bookings);
+  if (!observationDate) return [];
+
+  const byMonth = groupBookings(bookings, booking => monthKey(booking.arrivalDate));
+  const lastComplete = subMonths(startOfMonth(observationDate), 1);
+
+  return Array.from({ length: months }, (_, index) => subMonths(lastComplete, months - 1 - index))
+    .map((month) => {
+      const asOf = addDays(startOfMonth(month), -leadDays);
+      const result = forecastMonth(byMonth, month, asOf, asOf);
+      const actual = sumOnTheBooks(byMonth.get(monthKey(month)) ?? [], endOfMonth(month));
+      return { result, asOf, actual: actual[metric] };
+    })
+    .filter(({ result }) => result.samples > 0)
+    .map(({ result, asOf, actual }) => ({
+      month: result.month,
+      asOf,
+      forecast: result.forecast[metric],
+      lower: result.lower[metric],
+      upper: result.upper[metric],
+      actual,
+    }));
+};
+
+/**
+ * Endstand abgeschlossener Anreisemonate für die Darstellung neben der Prognose
+ */
+export const getFinalTotals = (bookings: BookingData[], months: Date[]): Map<string, ForecastTotals> => {
+  const byMonth = groupBookings(bookings, booking => monthKey(booking.arrivalDate));
+  return new Map(months.map(month => [monthKey(month), sumOnTheBooks(byMonth.get(monthKey(month)) ?? [], endOfMonth(month))]));
+};
+
+/**
+ * Mittlerer absoluter prozentualer Fehler und Anteil der Istwerte innerhalb des Bands
+ */
+export const summarizeBacktest = (rows: BacktestRow[]): { mape: number | null; coverage: number | null } => {
+  const withActual = rows.filter(row => row.actual !== 0);
+  return {
+    mape: withActual.length > 0
+      ? withActual.reduce((sum, row) => sum + Math.abs(row.forecast - row.actual) / Math.abs(row.actual), 0) / withActual.length
+      : null,
+    coverage: rows.length > 0
+      ? rows.filter(row => row.actual >= row.lower && row.actual <= row.upper).length / rows.length
+      : null,
+  };
+};
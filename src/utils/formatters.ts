@@ -1,3 +1,5 @@
+import { BookingField } from '../types/import';
+
 /**
  * Formatiert einen Zahlenwert als Währung (EUR)
  */
@@ -32,3 +34,31 @@ export const formatDate = (date: Date): string => {
 export const formatNumber = (value: number): string => {
   return new Intl.NumberFormat('de-DE').format(value);
 };
+
+/**
+ * Formatiert eine durchschnittliche Anzahl von Nächten mit einer Nachkommastelle
+ */
+export const formatNights = (value: number): string => {
+  return `${new Intl.NumberFormat('de-DE', {
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  }).format(value)} Nächte`;
+};
+
+/**
+ * Formatiert eine Anzahl von Tagen mit höchstens einer Nachkommastelle
+ */
+export const formatDays = (value: number): string => {
+  return `${new Intl.NumberFormat('de-DE', { maximumFractionDigits: 1 }).format(value)} Tage`;
+};
+
+/**
+ * Formatiert den Wert eines Buchungsfelds für Änderungsübersichten
+ */
+export const formatFieldValue = (field: BookingField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '–';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'boolean') return value ? 'Ja' : 'Nein';
+  if (field === 'totalPrice' || field === 'commission') return formatCurrency(value as number);
+  return String(value);
+};
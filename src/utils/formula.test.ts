@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createBooking } from '../test/fixtures';
+import { FormulaNode, evaluateFormula, parseFormula } from './formula';
+
+const bookings = [
+  createBooking({ bookingCode: 'B-1', commission: 30, persons: 2, children: 0 }),
+  createBooking({ bookingCode: 'B-2', commission: 60, persons: 4, children: 2 }),
+  createBooking({ bookingCode: 'B-3', commission: 90, persons: 3, children: 1, cancelled: true }),
+];
+
+const parse = (formula: string): FormulaNode => {
+  const result = parseFormula(formula);
+  if (!result.ok) throw new Error(result.error);
+  return result.node;
+};
+
+describe('parseFormula', () => {
+  it.each(['constructor', 'toString', '__defineGetter__', '__proto__', 'hasOwnProperty', 'valueOf'])(
+    'lehnt den geerbten Namen %s als Feld ab',
+    (name) => {
+      const result = parseFormula(`sum(${name})`);
+      expect(result).toMatchObject({ ok: false, position: 4 });
+      expect(!result.ok && result.error).toContain(`Unbekannter Name „${name}“`);
+    }
+  );
+
+  it('meldet unbekannte Namen mit Position', () => {
+    expect(parseFormula('sum(price)')).toMatchObject({ ok: false, position: 4 });
+    expect(parseFormula('total(commission)')).toMatchObject({ ok: false, position: 0 });
+  });
+
+  it.each([
+    ['', 'Bitte eine Formel eingeben'],
+    ['sum(commission', 'Schließende Klammer'],
+    ['sum(commission) /', 'unvollständig'],
+    ['sum(commission) 2', 'Unerwartetes „2“'],
+    ['sum(totalPrice) / 1,19', 'Punkt'],
+    ['sum(commission) # 2', 'Unerwartetes Zeichen'],
+    ['commission', 'muss in einer Aggregatfunktion stehen'],
+    ['sum(avg(commission))', 'nicht innerhalb einer anderen Aggregatfunktion'],
+    ['sum commission', 'wird „(“ erwartet'],
+  ])('lehnt die fehlerhafte Formel „%s“ ab', (formula, message) => {
+    const result = parseFormula(formula);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain(message);
+  });
+});
+
+describe('evaluateFormula', () => {
+  it('rechnet Aggregate mit Punkt vor Strich', () => {
+    expect(evaluateFormula(parse('sum(commission) / sum(persons)'), bookings)).toBe(180 / 9);
+    expect(evaluateFormula(parse('1 + 2 * 3'), bookings)).toBe(7);
+    expect(evaluateFormula(parse('-(sum(commission * active))'), bookings)).toBe(-90);
+  });
+
+  it('zählt mit und ohne Bedingung', () => {
+    expect(evaluateFormula(parse('count()'), bookings)).toBe(3);
+    expect(evaluateFormula(parse('count(children > 0)'), bookings)).toBe(2);
+    expect(evaluateFormula(parse('avg(persons) >= 3'), bookings)).toBe(1);
+  });
+
+  it('liefert NaN statt Unendlich bei Division durch 0', () => {
+    expect(evaluateFormula(parse('sum(commission) / 0'), bookings)).toBeNaN();
+    expect(evaluateFormula(parse('sum(commission) / sum(children * cancelled * 0)'), bookings)).toBeNaN();
+  });
+
+  it('liefert NaN für Durchschnitt, Minimum und Maximum ohne Buchungen, die Summe ist 0', () => {
+    expect(evaluateFormula(parse('avg(commission)'), [])).toBeNaN();
+    expect(evaluateFormula(parse('min(commission)'), [])).toBeNaN();
+    expect(evaluateFormula(parse('sum(commission)'), [])).toBe(0);
+  });
+});
@@ -0,0 +1,299 @@
+import { BookingData } from '../types/booking';
+import { getFieldLabel } from './columnMapping';
+import { getLeadTime } from './leadTime';
+import { getNights } from './metrics';
+
+/**
+ * Kleine Formelsprache für eigene Kennzahlen, z. B. sum(commission) / sum(persons).
+ * Buchungsfelder stehen nur innerhalb von Aggregatfunktionen; Vergleiche liefern 1 oder 0.
+ */
+export type FormulaField =
+  | 'totalPrice'
+  | 'commission'
+  | 'adults'
+  | 'children'
+  | 'persons'
+  | 'cancelled'
+  | 'active'
+  | 'nights'
+  | 'leadTime';
+
+export type FormulaFunction = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '>' | '<' | '>=' | '<=' | '==' | '!=';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'field'; field: FormulaField }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'aggregate'; fn: FormulaFunction; argument?: FormulaNode };
+
+export type FormulaParseResult =
+  | { ok: true; node: FormulaNode }
+  | { ok: false; error: string; position: number };
+
+const FIELD_VALUES: Record<FormulaField, (booking: BookingData) => number> = {
+  totalPrice: booking => booking.totalPrice,
+  commission: booking => booking.commission,
+  adults: booking => booking.adults,
+  children: booking => booking.children,
+  persons: booking => booking.persons,
+  cancelled: booking => (booking.cancelled ? 1 : 0),
+  active: booking => (booking.cancelled ? 0 : 1),
+  nights: getNights,
+  leadTime: getLeadTime,
+};
+
+export const FORMULA_FIELDS: { field: FormulaField; label: string }[] = [
+  { field: 'totalPrice', label: getFieldLabel('totalPrice') },
+  { field: 'commission', label: getFieldLabel('commission') },
+  { field: 'adults', label: getFieldLabel('adults') },
+  { field: 'children', label: getFieldLabel('children') },
+  { field: 'persons', label: getFieldLabel('persons') },
+  { field: 'cancelled', label: 'Storniert (1/0)' },
+  { field: 'active', label: 'Nicht storniert (1/0)' },
+  { field: 'nights', label: 'Nächte' },
+  { field: 'leadTime', label: 'Vorlaufzeit in Tagen' },
+];
+
+export const FORMULA_FUNCTIONS: { fn: FormulaFunction; description: string }[] = [
+  { fn: 'sum', description: 'Summe über alle Buchungen' },
+  { fn: 'avg', description: 'Durchschnitt über alle Buchungen' },
+  { fn: 'min', description: 'Kleinster Wert' },
+  { fn: 'max', description: 'Größter Wert' },
+  { fn: 'count', description: 'Anzahl Buchungen, mit Bedingung z. B. count(children > 0)' },
+];
+
+const COMPARISON_OPERATORS = ['>=', '<=', '==', '!=', '>', '<'] as const;
+
+interface Token {
+  kind: 'number' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+class FormulaSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(input.slice(index));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(index));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', text: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = COMPARISON_OPERATORS.find(op => input.startsWith(op, index)) ?? ('+-*/()'.includes(char) ? char : null);
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (char === ',' || char === ';') {
+      throw new FormulaSyntaxError('Dezimalzahlen bitte mit Punkt schreiben, z. B. 1.19', index);
+    }
+    throw new FormulaSyntaxError(`Unerwartetes Zeichen „${char}“`, index);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: input.length });
+  return tokens;
+};
+
+// Nur eigene Schlüssel, sonst gälten geerbte Namen wie constructor oder toString als Feld
+const isField = (name: string): name is FormulaField => Object.prototype.hasOwnProperty.call(FIELD_VALUES, name);
+const isFunction = (name: string): name is FormulaFunction => FORMULA_FUNCTIONS.some(entry => entry.fn === name);
+
+const parseTokens = (tokens: Token[]): FormulaNode => {
+  let index = 0;
+  let aggregateDepth = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const accept = (text: string) => {
+    if (peek().kind === 'operator' && peek().text === text) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (text: string, message: string) => {
+    if (!accept(text)) throw new FormulaSyntaxError(message, peek().position);
+  };
+
+  const parseComparison = (): FormulaNode => {
+    let node = parseAdditive();
+    while (peek().kind === 'operator' && (COMPARISON_OPERATORS as readonly string[]).includes(peek().text)) {
+      const operator = next().text as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseAdditive() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let node = parseMultiplicative();
+    while (peek().text === '+' || peek().text === '-') {
+      const operator = next().text as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = (): FormulaNode => {
+    let node = parseUnary();
+    while (peek().text === '*' || peek().text === '/') {
+      const operator = next().text as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (accept('-')) return { type: 'negate', operand: parseUnary() };
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+
+    if (token.kind === 'number') {
+      return { type: 'number', value: Number(token.text) };
+    }
+
+    if (token.kind === 'operator' && token.text === '(') {
+      const node = parseComparison();
+      expect(')', 'Schließende Klammer fehlt');
+      return node;
+    }
+
+    if (token.kind === 'identifier') {
+      const name = token.text;
+      if (isFunction(name)) {
+        if (aggregateDepth > 0) {
+          throw new FormulaSyntaxError(`${name}() kann nicht innerhalb einer anderen Aggregatfunktion stehen`, token.position);
+        }
+        expect('(', `Nach ${name} wird „(“ erwartet`);
+        if (name === 'count' && accept(')')) {
+          return { type: 'aggregate', fn: name };
+        }
+        aggregateDepth++;
+        const argument = parseComparison();
+        aggregateDepth--;
+        expect(')', `Schließende Klammer nach dem Argument von ${name}() fehlt`);
+        return { type: 'aggregate', fn: name, argument };
+      }
+      if (isField(name)) {
+        if (aggregateDepth === 0) {
+          throw new FormulaSyntaxError(`Feld „${name}“ muss in einer Aggregatfunktion stehen, z. B. sum(${name})`, token.position);
+        }
+        return { type: 'field', field: name };
+      }
+      throw new FormulaSyntaxError(
+        `Unbekannter Name „${name}“. Erlaubt sind ${FORMULA_FIELDS.map(entry => entry.field).join(', ')} und ${FORMULA_FUNCTIONS.map(entry => `${entry.fn}()`).join(', ')}`,
+        token.position
+      );
+    }
+
+    if (token.kind === 'end') {
+      throw new FormulaSyntaxError('Die Formel ist unvollständig', token.position);
+    }
+    throw new FormulaSyntaxError(`Unerwartetes „${token.text}“`, token.position);
+  };
+
+  const node = parseComparison();
+  if (peek().kind !== 'end') {
+    throw new FormulaSyntaxError(`Unerwartetes „${peek().text}“`, peek().position);
+  }
+  return node;
+};
+
+/**
+ * Prüft und zerlegt eine Formel; Fehler enthalten eine verständliche Meldung und die Position
+ */
+export const parseFormula = (input: string): FormulaParseResult => {
+  if (!input.trim()) {
+    return { ok: false, error: 'Bitte eine Formel eingeben', position: 0 };
+  }
+  try {
+    return { ok: true, node: parseTokens(tokenize(input)) };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return { ok: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+};
+
+const applyOperator = (operator: BinaryOperator, left: number, right: number): number => {
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    // Division durch 0 ergibt keinen Wert statt Unendlich
+    case '/': return right === 0 ? NaN : left / right;
+    case '>': return left > right ? 1 : 0;
+    case '<': return left < right ? 1 : 0;
+    case '>=': return left >= right ? 1 : 0;
+    case '<=': return left <= right ? 1 : 0;
+    case '==': return left === right ? 1 : 0;
+    case '!=': return left !== right ? 1 : 0;
+  }
+};
+
+const evaluateRow = (node: FormulaNode, booking: BookingData): number => {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'field': return FIELD_VALUES[node.field](booking);
+    case 'negate': return -evaluateRow(node.operand, booking);
+    case 'binary': return applyOperator(node.operator, evaluateRow(node.left, booking), evaluateRow(node.right, booking));
+    // Verschachtelte Aggregate lehnt der Parser ab
+    case 'aggregate': return NaN;
+  }
+};
+
+const aggregate = (fn: FormulaFunction, argument: FormulaNode | undefined, bookings: BookingData[]): number => {
+  if (fn === 'count') {
+    return argument ? bookings.filter(booking => evaluateRow(argument, booking) !== 0).length : bookings.length;
+  }
+  const values = bookings.map(booking => evaluateRow(argument!, booking));
+  if (fn === 'sum') return values.reduce((sum, value) => sum + value, 0);
+  if (values.length === 0) return NaN;
+  if (fn === 'avg') return values.reduce((sum, value) => sum + value, 0) / values.length;
+  return fn === 'min'
+    ? values.reduce((min, value) => Math.min(min, value))
+    : values.reduce((max, value) => Math.max(max, value));
+};
+
+/**
+ * Wertet eine geprüfte Formel über eine Menge von Buchungen aus; NaN, wenn kein Wert berechenbar ist
+ */
+export const evaluateFormula = (node: FormulaNode, bookings: BookingData[]): number => {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'negate': return -evaluateFormula(node.operand, bookings);
+    case 'binary': return applyOperator(node.operator, evaluateFormula(node.left, bookings), evaluateFormula(node.right, bookings));
+    case 'aggregate': return aggregate(node.fn, node.argument, bookings);
+    case 'field': return NaN;
+  }
+};
@@ -0,0 +1,212 @@
+import { feature } from 'topojson-client';
+import { GeometryCollection, Topology } from 'topojson-specification';
+import { BookingData } from '../types/booking';
+import { MarketTotals, normalizeCountry, sumMarketTotals } from './sourceMarkets';
+import { groupBookings } from './metrics';
+
+// PLZ-Leitregionen und touristische Zielregionen fehlen, da es für sie keine frei verteilte Geometrie gibt;
+// die PLZ-Gebiete zeigt die Quellmarktanalyse
+export type MapLayer = 'country' | 'serviceCity';
+
+export type MapMetric = 'bookings' | 'revenue';
+
+export interface AreaFilter {
+  layer: MapLayer;
+  key: string;
+}
+
+interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+interface GeoMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+interface GeoPoint {
+  type: 'Point';
+  coordinates: number[];
+}
+
+export interface GeoFeature {
+  type: 'Feature';
+  properties: Record<string, unknown> | null;
+  geometry: GeoPolygon | GeoMultiPolygon | GeoPoint | null;
+}
+
+export interface GeoFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoFeature[];
+}
+
+export interface ProjectedArea {
+  key: string;
+  path: string;
+  // Orte liegen als Punkte vor und werden als Kreis gezeichnet
+  isPoint: boolean;
+}
+
+interface MapLayerOption {
+  value: MapLayer;
+  label: string;
+  group: 'Herkunft' | 'Ziel';
+  // TopoJSON-Datei unter src/assets/geo, darin das Objekt der Ebene, und Schlüssel eines Features passend zu getAreaKey
+  geometryFile: string;
+  geometryObject: string;
+  getFeatureKey: (properties: Record<string, unknown>) => string | null;
+  // Quellenangabe der mitgelieferten Geometrie
+  attribution: string;
+}
+
+const getStringProperty = (properties: Record<string, unknown>, names: string[]): string | null => {
+  const name = names.find(candidate => properties[candidate] !== undefined && properties[candidate] !== null);
+  return name ? String(properties[name]).trim() : null;
+};
+
+export const MAP_LAYERS: MapLayerOption[] = [
+  {
+    value: 'country',
+    label: 'Herkunftsländer',
+    group: 'Herkunft',
+    geometryFile: 'countries.json',
+    geometryObject: 'countries',
+    getFeatureKey: (properties) => {
+      const name = getStringProperty(properties, ['name_de', 'name', 'iso_a2', 'ISO_A2']);
+      return name ? normalizeCountry(name) : null;
+    },
+    attribution: 'Grenzen: Natural Earth',
+  },
+  {
+    value: 'serviceCity',
+    label: 'Zielorte',
+    group: 'Ziel',
+    geometryFile: 'cities.json',
+    geometryObject: 'cities',
+    getFeatureKey: (properties) => getStringProperty(properties, ['name']),
+    attribution: 'Orte: GeoNames (CC BY 4.0)',
+  },
+];
+
+export const MAP_METRICS: { value: MapMetric; label: string }[] = [
+  { value: 'bookings', label: 'Buchungen' },
+  { value: 'revenue', label: 'Umsatz' },
+];
+
+// Geometrien werden beim Build als eigene Chunks gebündelt, damit die Karte ohne Netzwerk funktioniert,
+// und erst beim Öffnen der Ebene geladen
+const BUNDLED_GEOMETRY = import.meta.glob<Topology>('../assets/geo/*.json', { import: 'default' });
+
+const POINT_RADIUS = 4;
+
+/**
+ * Lädt die gebündelte Geometrie einer Ebene und wandelt das TopoJSON in Features um
+ */
+export const loadBundledGeometry = async (layer: MapLayer): Promise<GeoFeatureCollection> => {
+  const option = MAP_LAYERS.find(candidate => candidate.value === layer);
+  const loader = option && BUNDLED_GEOMETRY[`../assets/geo/${option.geometryFile}`];
+  if (!option || !loader) {
+    throw new Error(`Keine Kartengeometrie für die Ebene ${layer}`);
+  }
+  const topology = await loader();
+  const object = topology.objects[option.geometryObject] as GeometryCollection;
+  return feature(topology, object) as GeoFeatureCollection;
+};
+
+/**
+ * Gebiet einer Buchung in der gewählten Ebene; null, wenn es sich nicht bestimmen lässt
+ */
+export const getAreaKey = (booking: BookingData, layer: MapLayer): string | null => {
+  switch (layer) {
+    case 'country':
+      return normalizeCountry(booking.country);
+    case 'serviceCity':
+      return booking.serviceCity || null;
+  }
+};
+
+/**
+ * Prüft, ob eine Buchung zum gewählten Kartengebiet gehört; ohne Auswahl immer true
+ */
+export const matchesArea = (booking: BookingData, filter: AreaFilter | null): boolean => {
+  return !filter || getAreaKey(booking, filter.layer) === filter.key;
+};
+
+/**
+ * Kennzahlen je Gebiet ohne Stornierungen
+ */
+export const aggregateByArea = (bookings: BookingData[], layer: MapLayer): Map<string, MarketTotals> => {
+  const totals = new Map<string, MarketTotals>();
+  groupBookings(bookings, booking => getAreaKey(booking, layer) ?? '').forEach((group, key) => {
+    if (key) totals.set(key, sumMarketTotals(group));
+  });
+  return totals;
+};
+
+/**
+ * Füllfarbe eines Gebiets; die Wurzel verhindert, dass ein großer Markt alle anderen blass erscheinen lässt
+ */
+export const getAreaShade = (value: number, max: number): string => {
+  if (value <= 0 || max <= 0) return '#f3f4f6';
+  const intensity = Math.sqrt(value / max);
+  return `rgba(37, 99, 235, ${(0.1 + intensity * 0.8).toFixed(2)})`;
+};
+
+/**
+ * Projiziert Features als SVG-Pfade in die Zeichenfläche (abstandstreue Zylinderprojektion,
+ * Längengrade mit dem Kosinus der mittleren Breite gestaucht); Punkte werden zu kleinen Kreisen
+ */
+export const projectFeatures = (
+  collection: GeoFeatureCollection,
+  getFeatureKey: (properties: Record<string, unknown>) => string | null,
+  width: number,
+  height: number
+): ProjectedArea[] => {
+  const polygons = (feature: GeoFeature): number[][][][] => {
+    if (!feature.geometry) return [];
+    switch (feature.geometry.type) {
+      case 'Point':
+        return [[[feature.geometry.coordinates]]];
+      case 'Polygon':
+        return [feature.geometry.coordinates];
+      case 'MultiPolygon':
+        return feature.geometry.coordinates;
+    }
+  };
+
+  // Schleife statt Math.min(...), da Geometrien mehrere Hunderttausend Punkte haben können
+  let minLon = Infinity;
+  let maxLon = -Infinity;
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  collection.features.forEach(feature => polygons(feature).forEach(polygon => polygon.forEach(ring => ring.forEach(([lon, lat]) => {
+    minLon = Math.min(minLon, lon);
+    maxLon = Math.max(maxLon, lon);
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+  }))));
+  if (minLon === Infinity) return [];
+
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const scale = Math.min(width / ((maxLon - minLon) * lonScale || 1), height / (maxLat - minLat || 1));
+
+  const projectX = (lon: number) => (lon - minLon) * lonScale * scale;
+  const projectY = (lat: number) => (maxLat - lat) * scale;
+  const project = ([lon, lat]: number[]) => `${projectX(lon).toFixed(1)},${projectY(lat).toFixed(1)}`;
+
+  return collection.features.flatMap((feature): ProjectedArea[] => {
+    const key = getFeatureKey(feature.properties ?? {});
+    if (!key || !feature.geometry) return [];
+    if (feature.geometry.type === 'Point') {
+      const [lon, lat] = feature.geometry.coordinates;
+      const x = (projectX(lon) - POINT_RADIUS).toFixed(1);
+      const path = `M${x},${projectY(lat).toFixed(1)}a${POINT_RADIUS},${POINT_RADIUS} 0 1,0 ${POINT_RADIUS * 2},0a${POINT_RADIUS},${POINT_RADIUS} 0 1,0 ${-POINT_RADIUS * 2},0`;
+      return [{ key, path, isPoint: true }];
+    }
+    const path = polygons(feature)
+      .flatMap(polygon => polygon.map(ring => `M${ring.map(project).join('L')}Z`))
+      .join('');
+    return path ? [{ key, path, isPoint: false }] : [];
+  });
+};
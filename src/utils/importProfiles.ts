@@ -0,0 +1,64 @@
+import { ColumnMapping, ImportProfile } from '../types/import';
+
+const STORAGE_KEY = 'csv-analytics-dashboard:import-profiles';
+
+/**
+ * Lädt alle gespeicherten Importprofile
+ */
+export const loadImportProfiles = (): ImportProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ImportProfile[]) : [];
+  } catch (error) {
+    console.error('Fehler beim Laden der Importprofile:', error);
+    return [];
+  }
+};
+
+const storeImportProfiles = (profiles: ImportProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Speichert ein Importprofil; ein Profil mit gleichem Namen wird überschrieben
+ */
+export const saveImportProfile = (
+  name: string,
+  headerSignature: string,
+  mapping: ColumnMapping
+): ImportProfile => {
+  const profiles = loadImportProfiles();
+  const existing = profiles.find(profile => profile.name === name);
+  const profile: ImportProfile = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    headerSignature,
+    mapping,
+    createdAt: new Date().toISOString(),
+  };
+
+  storeImportProfiles([
+    ...profiles.filter(p => p.id !== profile.id),
+    profile,
+  ]);
+  return profile;
+};
+
+/**
+ * Entfernt ein Importprofil
+ */
+export const deleteImportProfile = (id: string) => {
+  storeImportProfiles(loadImportProfiles().filter(profile => profile.id !== id));
+};
+
+/**
+ * Sucht das zuletzt gespeicherte Profil mit passender Spaltensignatur
+ */
+export const findProfileForSignature = (
+  profiles: ImportProfile[],
+  headerSignature: string
+): ImportProfile | undefined => {
+  return profiles
+    .filter(profile => profile.headerSignature === headerSignature)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+};
@@ -0,0 +1,124 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { groupBookings, median, safeDivide } from './metrics';
+
+export interface LeadTimeBucket {
+  label: string;
+  min: number;
+  // null = nach oben offen
+  max: number | null;
+}
+
+export interface LeadTimeHistogramEntry {
+  label: string;
+  bookings: number;
+  share: number;
+}
+
+export interface LeadTimeGroupStats {
+  name: string;
+  bookings: number;
+  medianLeadTime: number;
+  averageLeadTime: number;
+}
+
+export interface LeadTimeYearStats extends LeadTimeGroupStats {
+  histogram: LeadTimeHistogramEntry[];
+}
+
+export const DEFAULT_LEAD_TIME_BOUNDARIES = [7, 30, 90, 180, 365];
+
+/**
+ * Vorlaufzeit in Tagen zwischen Buchung und Anreise; Buchungen nach Anreise zählen mit 0
+ */
+export const getLeadTime = (booking: BookingData): number => {
+  return Math.max(0, differenceInCalendarDays(booking.arrivalDate, booking.bookingDate));
+};
+
+/**
+ * Erzeugt Klassen aus Obergrenzen, z. B. [7, 30] → 0–7, 8–30, über 30 Tage
+ */
+export const createLeadTimeBuckets = (boundaries: number[]): LeadTimeBucket[] => {
+  const sorted = Array.from(new Set(boundaries.filter(b => Number.isInteger(b) && b >= 0))).sort((a, b) => a - b);
+  const buckets: LeadTimeBucket[] = [];
+  let min = 0;
+  sorted.forEach((max) => {
+    buckets.push({ label: `${min}–${max} Tage`, min, max });
+    min = max + 1;
+  });
+  buckets.push({ label: sorted.length > 0 ? `über ${min - 1} Tage` : 'alle', min, max: null });
+  return buckets;
+};
+
+/**
+ * Liest Klassengrenzen aus einer Eingabe wie „7, 30, 90“
+ */
+export const parseLeadTimeBoundaries = (input: string): number[] => {
+  return input
+    .split(/[,;\s]+/)
+    .map(value => Number(value))
+    .filter(value => Number.isInteger(value) && value >= 0);
+};
+
+// Stornierte Buchungen fließen wie bei den übrigen Kennzahlen nicht ein
+const activeBookings = (bookings: BookingData[]) => bookings.filter(booking => !booking.cancelled);
+
+/**
+ * Verteilung der Vorlaufzeiten auf die Klassen; share ist ein Anteil zwischen 0 und 1
+ */
+export const calculateLeadTimeHistogram = (
+  bookings: BookingData[],
+  buckets: LeadTimeBucket[]
+): LeadTimeHistogramEntry[] => {
+  const counts = buckets.map(() => 0);
+  const active = activeBookings(bookings);
+  active.forEach((booking) => {
+    const leadTime = getLeadTime(booking);
+    const index = buckets.findIndex(bucket => leadTime >= bucket.min && (bucket.max === null || leadTime <= bucket.max));
+    if (index >= 0) counts[index]++;
+  });
+  return buckets.map((bucket, index) => ({
+    label: bucket.label,
+    bookings: counts[index],
+    share: safeDivide(counts[index], active.length),
+  }));
+};
+
+const summarize = (name: string, bookings: BookingData[]): LeadTimeGroupStats => {
+  const leadTimes = bookings.map(getLeadTime);
+  return {
+    name,
+    bookings: bookings.length,
+    medianLeadTime: median(leadTimes),
+    averageLeadTime: safeDivide(leadTimes.reduce((sum, value) => sum + value, 0), leadTimes.length),
+  };
+};
+
+/**
+ * Median und Durchschnitt der Vorlaufzeit je Gruppe, nach Anzahl Buchungen absteigend
+ */
+export const calculateLeadTimeByGroup = (
+  bookings: BookingData[],
+  getKey: (booking: BookingData) => string
+): LeadTimeGroupStats[] => {
+  return Array.from(groupBookings(activeBookings(bookings), getKey))
+    .map(([name, group]) => summarize(name, group))
+    .sort((a, b) => b.bookings - a.bookings);
+};
+
+/**
+ * Vorlaufzeiten je Jahr (standardmäßig nach Anreise), um Verschiebungen im Buchungsverhalten zu erkennen
+ */
+export const calculateLeadTimeByYear = (
+  bookings: BookingData[],
+  buckets: LeadTimeBucket[],
+  getDate: (booking: BookingData) => Date | undefined = booking => booking.arrivalDate
+): LeadTimeYearStats[] => {
+  const dated = activeBookings(bookings).filter(booking => getDate(booking) !== undefined);
+  return Array.from(groupBookings(dated, booking => String(getDate(booking)!.getFullYear())))
+    .map(([year, group]) => ({
+      ...summarize(year, group),
+      histogram: calculateLeadTimeHistogram(group, buckets),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
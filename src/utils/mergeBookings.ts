@@ -0,0 +1,99 @@
+import { BookingData } from '../types/booking';
+
+export type MergeStrategy = 'newest' | 'existing' | 'cancellation';
+
+export const MERGE_STRATEGIES: { value: MergeStrategy; label: string }[] = [
+  { value: 'newest', label: 'Neueste Datei gewinnt' },
+  { value: 'existing', label: 'Vorhandene Zeile behalten' },
+  { value: 'cancellation', label: 'Zeile mit Stornierung gewinnt' },
+];
+
+export interface MergeResult {
+  data: BookingData[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface FileMergeSummary {
+  fileName: string;
+  rows: number;
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+const isCancelledVersion = (booking: BookingData): boolean => {
+  return booking.cancelled || booking.cancellationDate !== undefined;
+};
+
+const isSameBooking = (a: BookingData, b: BookingData): boolean => {
+  return (Object.keys({ ...a, ...b }) as (keyof BookingData)[]).every((key) => {
+    const left = a[key];
+    const right = b[key];
+    if (left instanceof Date && right instanceof Date) {
+      return left.getTime() === right.getTime();
+    }
+    return left === right;
+  });
+};
+
+const shouldReplace = (existing: BookingData, incoming: BookingData, strategy: MergeStrategy): boolean => {
+  switch (strategy) {
+    case 'existing':
+      return false;
+    case 'cancellation':
+      if (isCancelledVersion(existing) !== isCancelledVersion(incoming)) {
+        return isCancelledVersion(incoming);
+      }
+      return true;
+    case 'newest':
+    default:
+      return true;
+  }
+};
+
+/**
+ * Führt neue Buchungen anhand des Buchungscodes mit einem bestehenden Datensatz zusammen
+ */
+export const mergeBookings = (
+  existing: BookingData[],
+  incoming: BookingData[],
+  strategy: MergeStrategy
+): MergeResult => {
+  const data = [...existing];
+  const indexByCode = new Map<string, number>();
+  data.forEach((booking, index) => {
+    if (booking.bookingCode) {
+      indexByCode.set(booking.bookingCode, index);
+    }
+  });
+
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  incoming.forEach((booking) => {
+    const index = booking.bookingCode ? indexByCode.get(booking.bookingCode) : undefined;
+
+    if (index === undefined) {
+      if (booking.bookingCode) {
+        indexByCode.set(booking.bookingCode, data.length);
+      }
+      data.push(booking);
+      added++;
+      return;
+    }
+
+    const current = data[index];
+    if (isSameBooking(current, booking) || !shouldReplace(current, booking, strategy)) {
+      skipped++;
+      return;
+    }
+
+    data[index] = booking;
+    updated++;
+  });
+
+  return { data, added, updated, skipped };
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { BookingData } from '../types/booking';
+import { createBooking } from '../test/fixtures';
+import {
+  calculateGroupedMetrics,
+  calculateMetrics,
+  effectiveCommission,
+  effectivePersons,
+  effectiveRevenue,
+  getNights,
+  relativeChange,
+  safeDivide,
+} from './metrics';
+
+// Zwei Unterkünfte, davon eine Stornierung bei „Haus Düne“
+const bookings: BookingData[] = [
+  createBooking({ bookingCode: 'B-1' }),
+  createBooking({
+    bookingCode: 'B-2',
+    totalPrice: 500,
+    commission: 50,
+    arrivalDate: new Date(2024, 6, 1),
+    departureDate: new Date(2024, 6, 8),
+  }),
+  createBooking({
+    bookingCode: 'B-3',
+    totalPrice: 1000,
+    commission: 100,
+    cancelled: true,
+    cancellationDate: new Date(2024, 2, 1),
+  }),
+  createBooking({
+    bookingCode: 'B-4',
+    serviceName: 'Strandhaus',
+    serviceCity: 'Wenningstedt',
+    totalPrice: 200,
+    commission: 20,
+    arrivalDate: new Date(2024, 7, 10),
+    departureDate: new Date(2024, 7, 12),
+  }),
+];
+
+describe('calculateMetrics', () => {
+  it('berechnet die Kennzahlen eines Buchungsbestands', () => {
+    expect(calculateMetrics(bookings)).toMatchObject({
+      bookings: 4,
+      activeBookings: 3,
+      cancelledBookings: 1,
+      revenue: 1000,
+      commission: 100,
+      cancelledRevenue: 1000,
+      cancelledCommission: 100,
+      averageRevenue: 1000 / 3,
+      averageCommission: 100 / 3,
+      cancellationRate: 0.25,
+      commissionLossRate: 0.5,
+    });
+  });
+
+  it('zählt den Umsatz stornierter Buchungen nicht mit', () => {
+    const metrics = calculateMetrics(bookings);
+    expect(metrics.revenue).toBe(300 + 500 + 200);
+    expect(metrics.revenue).toBe(bookings.reduce((sum, booking) => sum + effectiveRevenue(booking), 0));
+    expect(metrics.commission).toBe(bookings.reduce((sum, booking) => sum + effectiveCommission(booking), 0));
+  });
+
+  it('liefert 0 statt NaN, wenn alle Buchungen storniert sind', () => {
+    const metrics = calculateMetrics([createBooking({ cancelled: true }), createBooking({ bookingCode: 'B-2', cancelled: true })]);
+    expect(metrics.activeBookings).toBe(0);
+    expect(metrics.averageRevenue).toBe(0);
+    expect(metrics.averageCommission).toBe(0);
+    expect(metrics.cancellationRate).toBe(1);
+    expect(metrics.commissionLossRate).toBe(1);
+  });
+
+  it('liefert für eine leere Liste nur Nullen', () => {
+    const metrics = calculateMetrics([]);
+    Object.values(metrics).forEach(value => expect(value).toBe(0));
+  });
+});
+
+describe('safeDivide', () => {
+  it('teilt normal, solange der Nenner nicht 0 ist', () => {
+    expect(safeDivide(100, 4)).toBe(25);
+  });
+
+  it('liefert 0 bei einem Nenner von 0', () => {
+    expect(safeDivide(100, 0)).toBe(0);
+    expect(safeDivide(0, 0)).toBe(0);
+  });
+});
+
+describe('relativeChange', () => {
+  it('liefert die Veränderung als Anteil', () => {
+    expect(relativeChange(110, 100)).toBeCloseTo(0.1);
+    expect(relativeChange(50, 100)).toBeCloseTo(-0.5);
+  });
+
+  it('bezieht negative Vergleichswerte auf den Betrag', () => {
+    expect(relativeChange(-50, -100)).toBeCloseTo(0.5);
+  });
+
+  it('liefert null ohne Vergleichswert', () => {
+    expect(relativeChange(100, 0)).toBeNull();
+    expect(relativeChange(100, undefined)).toBeNull();
+  });
+});
+
+describe('effectivePersons', () => {
+  it('nimmt ohne Personenzahl Erwachsene plus Kinder und zählt Stornierungen mit 0', () => {
+    expect(effectivePersons(createBooking({ persons: 3 }))).toBe(3);
+    expect(effectivePersons(createBooking({ persons: 0, adults: 2, children: 1 }))).toBe(3);
+    expect(effectivePersons(createBooking({ cancelled: true }))).toBe(0);
+  });
+});
+
+describe('Übernachtungen', () => {
+  it('zählt Kalendertage zwischen An- und Abreise und nie weniger als 0', () => {
+    expect(getNights(createBooking())).toBe(3);
+    expect(getNights(createBooking({ departureDate: new Date(2024, 4, 30) }))).toBe(0);
+  });
+
+  it('berechnet Nächte, Ø Aufenthalt und ADR ohne stornierte Buchungen', () => {
+    expect(calculateMetrics(bookings)).toMatchObject({
+      roomNights: 3 + 7 + 2,
+      averageLengthOfStay: 4,
+      revenuePerNight: 1000 / 12,
+    });
+  });
+
+  it('liefert 0 statt NaN ohne aktive Buchungen oder Nächte', () => {
+    const cancelled = calculateMetrics([createBooking({ cancelled: true })]);
+    expect(cancelled).toMatchObject({ roomNights: 0, averageLengthOfStay: 0, revenuePerNight: 0 });
+
+    const dayTrip = calculateMetrics([createBooking({ departureDate: new Date(2024, 5, 1) })]);
+    expect(dayTrip).toMatchObject({ roomNights: 0, revenuePerNight: 0 });
+  });
+});
+
+describe('calculateGroupedMetrics', () => {
+  it('berechnet die Kennzahlen je Gruppe', () => {
+    const byAccommodation = calculateGroupedMetrics(bookings, booking => booking.serviceName);
+    expect(Array.from(byAccommodation.keys())).toEqual(['Haus Düne', 'Strandhaus']);
+    expect(byAccommodation.get('Haus Düne')).toMatchObject({ bookings: 3, activeBookings: 2, revenue: 800, commission: 80 });
+    expect(byAccommodation.get('Strandhaus')).toMatchObject({ bookings: 1, activeBookings: 1, revenue: 200, commission: 20 });
+  });
+
+  it('zählt auch in der Unterkunftstabelle keinen stornierten Umsatz', () => {
+    const byAccommodation = calculateGroupedMetrics(bookings, booking => booking.serviceName);
+    const groupedRevenue = Array.from(byAccommodation.values()).reduce((sum, metrics) => sum + metrics.revenue, 0);
+    expect(groupedRevenue).toBe(calculateMetrics(bookings).revenue);
+    expect(byAccommodation.get('Haus Düne')?.cancelledRevenue).toBe(1000);
+  });
+
+  it('liefert 0 als durchschnittliche Provision einer Gruppe ohne aktive Buchungen', () => {
+    const grouped = calculateGroupedMetrics(
+      [...bookings, createBooking({ bookingCode: 'B-5', serviceName: 'Leuchtturm', cancelled: true })],
+      booking => booking.serviceName
+    );
+    expect(grouped.get('Leuchtturm')).toMatchObject({ activeBookings: 0, averageCommission: 0, averageRevenue: 0 });
+  });
+});
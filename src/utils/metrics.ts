@@ -0,0 +1,160 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { BookingData } from '../types/booking';
+
+/**
+ * Zentrale Kennzahlen eines Buchungsbestands. Umsatz, Provision und Übernachtungen zählen nur
+ * nicht stornierte Buchungen; Quoten sind Anteile zwischen 0 und 1 (für formatPercentage).
+ */
+export interface BookingMetrics {
+  bookings: number;
+  activeBookings: number;
+  cancelledBookings: number;
+  revenue: number;
+  commission: number;
+  cancelledRevenue: number;
+  cancelledCommission: number;
+  averageRevenue: number;
+  averageCommission: number;
+  cancellationRate: number;
+  commissionLossRate: number;
+  roomNights: number;
+  averageLengthOfStay: number;
+  revenuePerNight: number;
+}
+
+/**
+ * Umsatz einer Buchung – stornierte Buchungen zählen mit 0
+ */
+export const effectiveRevenue = (booking: BookingData): number => (booking.cancelled ? 0 : booking.totalPrice);
+
+/**
+ * Provision einer Buchung – stornierte Buchungen zählen mit 0
+ */
+export const effectiveCommission = (booking: BookingData): number => (booking.cancelled ? 0 : booking.commission);
+
+/**
+ * Personen einer Buchung, ersatzweise Erwachsene plus Kinder – stornierte Buchungen zählen mit 0
+ */
+export const effectivePersons = (booking: BookingData): number =>
+  booking.cancelled ? 0 : booking.persons || booking.adults + booking.children;
+
+/**
+ * Anzahl der Übernachtungen einer Buchung nach Kalendertagen zwischen An- und Abreise
+ */
+export const getNights = (booking: BookingData): number => {
+  return Math.max(0, differenceInCalendarDays(booking.departureDate, booking.arrivalDate));
+};
+
+/**
+ * Teilt zwei Werte und liefert 0 statt NaN oder Infinity, wenn der Nenner 0 ist
+ */
+export const safeDivide = (numerator: number, denominator: number): number => {
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+/**
+ * Median einer Zahlenliste; 0 bei leerer Liste
+ */
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Empirisches Quantil (0 bis 1) mit linearer Interpolation; 0 bei leerer Liste
+ */
+export const quantile = (values: number[], q: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Relative Veränderung als Anteil (0.1 = +10 %); null, wenn es keinen Vergleichswert gibt
+ */
+export const relativeChange = (current: number, previous: number | undefined): number | null => {
+  if (!previous) return null;
+  return (current - previous) / Math.abs(previous);
+};
+
+/**
+ * Berechnet die Kennzahlen für eine Liste von Buchungen
+ */
+export const calculateMetrics = (bookings: BookingData[]): BookingMetrics => {
+  let cancelledBookings = 0;
+  let revenue = 0;
+  let commission = 0;
+  let cancelledRevenue = 0;
+  let cancelledCommission = 0;
+  let roomNights = 0;
+
+  bookings.forEach((booking) => {
+    if (booking.cancelled) {
+      cancelledBookings++;
+      cancelledRevenue += booking.totalPrice;
+      cancelledCommission += booking.commission;
+    } else {
+      revenue += booking.totalPrice;
+      commission += booking.commission;
+      roomNights += getNights(booking);
+    }
+  });
+
+  const activeBookings = bookings.length - cancelledBookings;
+
+  return {
+    bookings: bookings.length,
+    activeBookings,
+    cancelledBookings,
+    revenue,
+    commission,
+    cancelledRevenue,
+    cancelledCommission,
+    averageRevenue: safeDivide(revenue, activeBookings),
+    averageCommission: safeDivide(commission, activeBookings),
+    cancellationRate: safeDivide(cancelledBookings, bookings.length),
+    commissionLossRate: safeDivide(cancelledCommission, commission + cancelledCommission),
+    roomNights,
+    averageLengthOfStay: safeDivide(roomNights, activeBookings),
+    revenuePerNight: safeDivide(revenue, roomNights),
+  };
+};
+
+/**
+ * Gruppiert Buchungen nach einem Schlüssel
+ */
+export const groupBookings = (
+  bookings: BookingData[],
+  getKey: (booking: BookingData) => string
+): Map<string, BookingData[]> => {
+  const groups = new Map<string, BookingData[]>();
+  bookings.forEach((booking) => {
+    const key = getKey(booking);
+    const group = groups.get(key);
+    if (group) {
+      group.push(booking);
+    } else {
+      groups.set(key, [booking]);
+    }
+  });
+  return groups;
+};
+
+/**
+ * Gruppiert Buchungen nach einem Schlüssel und berechnet die Kennzahlen je Gruppe
+ */
+export const calculateGroupedMetrics = (
+  bookings: BookingData[],
+  getKey: (booking: BookingData) => string
+): Map<string, BookingMetrics> => {
+  const metrics = new Map<string, BookingMetrics>();
+  groupBookings(bookings, getKey).forEach((group, key) => {
+    metrics.set(key, calculateMetrics(group));
+  });
+  return metrics;
+};
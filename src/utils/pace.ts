@@ -0,0 +1,92 @@
+import { addMonths, format, isSameMonth, max as maxDate, startOfMonth, subYears } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { getNights, relativeChange } from './metrics';
+
+export interface PaceTotals {
+  revenue: number;
+  bookings: number;
+  nights: number;
+}
+
+export interface PaceRow {
+  // Anreisemonat im Format yyyy-MM
+  month: string;
+  current: PaceTotals;
+  previous: PaceTotals;
+}
+
+export interface PaceReport {
+  asOf: Date;
+  previousAsOf: Date;
+  rows: PaceRow[];
+  current: PaceTotals;
+  previous: PaceTotals;
+}
+
+/**
+ * Stichtag der Daten: spätestes Buchungs- oder Stornierungsdatum
+ */
+export const getObservationDate = (bookings: BookingData[]): Date | null => {
+  const dates = bookings.flatMap(booking => (booking.cancellationDate ? [booking.bookingDate, booking.cancellationDate] : [booking.bookingDate]));
+  return dates.length > 0 ? maxDate(dates) : null;
+};
+
+/**
+ * Prüft, ob eine Buchung am Stichtag im Bestand war: bereits gebucht und noch nicht storniert.
+ * Stornierungen ohne Datum gelten als schon immer storniert.
+ */
+export const isOnTheBooks = (booking: BookingData, asOf: Date): boolean => {
+  if (booking.bookingDate > asOf) return false;
+  if (!booking.cancelled) return true;
+  return booking.cancellationDate !== undefined && booking.cancellationDate > asOf;
+};
+
+const emptyTotals = (): PaceTotals => ({ revenue: 0, bookings: 0, nights: 0 });
+
+const addBooking = (totals: PaceTotals, booking: BookingData) => {
+  totals.revenue += booking.totalPrice;
+  totals.bookings++;
+  totals.nights += getNights(booking);
+};
+
+/**
+ * Bestand je künftigem Anreisemonat zum Stichtag im Vergleich zum gleichen Stichtag ein Jahr zuvor
+ */
+export const calculatePace = (bookings: BookingData[], asOf: Date, monthsAhead: number): PaceReport => {
+  const previousAsOf = subYears(asOf, 1);
+  const firstMonth = startOfMonth(asOf);
+  const months = Array.from({ length: monthsAhead }, (_, index) => addMonths(firstMonth, index));
+
+  const rows: PaceRow[] = months.map(month => ({
+    month: format(month, 'yyyy-MM'),
+    current: emptyTotals(),
+    previous: emptyTotals(),
+  }));
+  const current = emptyTotals();
+  const previous = emptyTotals();
+
+  bookings.forEach((booking) => {
+    const index = months.findIndex(month => isSameMonth(booking.arrivalDate, month));
+    if (index >= 0 && isOnTheBooks(booking, asOf)) {
+      addBooking(rows[index].current, booking);
+      addBooking(current, booking);
+    }
+
+    // Bei mehr als zwölf Monaten kann dieselbe Anreise auch Vorjahreswert eines früheren Monats sein
+    const previousIndex = months.findIndex(month => isSameMonth(booking.arrivalDate, subYears(month, 1)));
+    if (previousIndex >= 0 && isOnTheBooks(booking, previousAsOf)) {
+      addBooking(rows[previousIndex].previous, booking);
+      addBooking(previous, booking);
+    }
+  });
+
+  return { asOf, previousAsOf, rows, current, previous };
+};
+
+/**
+ * Abstand zum Vorjahr absolut und relativ
+ */
+export const getPaceGap = (current: number, previous: number): { absolute: number; relative: number | null } => ({
+  absolute: current - previous,
+  relative: relativeChange(current, previous),
+});
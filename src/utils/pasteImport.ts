@@ -0,0 +1,28 @@
+import Papa from 'papaparse';
+import { RawRow, RawTable } from '../types/import';
+
+/**
+ * Wandelt aus Excel oder Google Sheets kopierte, tabulatorgetrennte Zeilen in Überschriften und Rohzeilen um
+ */
+export const parsePastedTable = (text: string): RawTable => {
+  // Tabellenkalkulationen hängen beim Kopieren einen Zeilenumbruch an
+  const content = text.replace(/[\r\n]+$/, '');
+  if (content.trim() === '') {
+    return { headers: [], rows: [] };
+  }
+
+  const matrix = Papa.parse<string[]>(content, { delimiter: '\t', skipEmptyLines: false }).data;
+  const [headerRow = [], ...body] = matrix;
+
+  const headers = headerRow.map((header, index) => header.trim() || `Spalte ${index + 1}`);
+
+  const rows = body.map((cells) => {
+    const row: RawRow = {};
+    headers.forEach((header, index) => {
+      row[header] = cells[index] ?? '';
+    });
+    return row;
+  });
+
+  return { headers, rows };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createBooking } from '../test/fixtures';
+import { buildPivot, getMetricValue } from './pivot';
+
+describe('getMetricValue', () => {
+  it('zählt Personen stornierter Buchungen wie Umsatz und Nächte nicht mit', () => {
+    const cancelled = createBooking({ cancelled: true, persons: 4 });
+    expect(getMetricValue(cancelled, 'persons')).toBe(0);
+    expect(getMetricValue(cancelled, 'revenue')).toBe(0);
+    expect(getMetricValue(cancelled, 'nights')).toBe(0);
+  });
+
+  it('nimmt ohne Personenzahl Erwachsene plus Kinder', () => {
+    expect(getMetricValue(createBooking({ persons: 0, adults: 2, children: 2 }), 'persons')).toBe(4);
+  });
+});
+
+describe('buildPivot', () => {
+  it('summiert Personen je Zeile ohne Stornierungen', () => {
+    const result = buildPivot(
+      [
+        createBooking({ region: 'Nordsee', persons: 2 }),
+        createBooking({ bookingCode: 'B-2', region: 'Nordsee', persons: 5, cancelled: true }),
+        createBooking({ bookingCode: 'B-3', region: 'Ostsee', persons: 3 }),
+      ],
+      { rows: ['region'], columns: [], metric: 'persons', aggregation: 'sum', sort: 'label-asc' },
+      'arrivalDate'
+    );
+    expect(result.rows.map(row => [row.keys[0], row.total])).toEqual([['Nordsee', 2], ['Ostsee', 3]]);
+    expect(result.grandTotal).toBe(5);
+  });
+});
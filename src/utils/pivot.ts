@@ -0,0 +1,278 @@
+import { format } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { CustomMetric } from '../types/customMetric';
+import { DateBasis, getBasisDate } from './dateBasis';
+import { effectiveCommission, effectivePersons, effectiveRevenue, getNights, safeDivide } from './metrics';
+import { FormulaNode, evaluateFormula, parseFormula } from './formula';
+
+export type PivotDimension =
+  | 'region'
+  | 'serviceCity'
+  | 'serviceName'
+  | 'country'
+  | 'serviceCountry'
+  | 'month'
+  | 'quarter'
+  | 'year'
+  | 'cancelled';
+
+export type PivotMetric = 'revenue' | 'commission' | 'bookings' | 'persons' | 'nights';
+
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'share';
+
+export type PivotSort = 'label-asc' | 'label-desc' | 'total-asc' | 'total-desc';
+
+export interface PivotConfig {
+  rows: PivotDimension[];
+  columns: PivotDimension[];
+  metric: PivotMetric;
+  aggregation: PivotAggregation;
+  sort: PivotSort;
+  // Eigene Kennzahl statt metric und aggregation; die Formel aggregiert selbst über die Buchungen jeder Zelle
+  customMetric?: CustomMetric;
+}
+
+export interface PivotRow {
+  keys: string[];
+  // Tiefe der Zeile: bei Zwischensummen die Anzahl der zusammengefassten Ebenen
+  level: number;
+  isSubtotal: boolean;
+  values: (number | null)[];
+  total: number;
+}
+
+export interface PivotResult {
+  columnKeys: string[];
+  rows: PivotRow[];
+  columnTotals: (number | null)[];
+  grandTotal: number;
+}
+
+export const PIVOT_DIMENSIONS: { value: PivotDimension; label: string }[] = [
+  { value: 'region', label: 'Region' },
+  { value: 'serviceCity', label: 'Stadt' },
+  { value: 'serviceName', label: 'Unterkunft' },
+  { value: 'country', label: 'Land (Gast)' },
+  { value: 'serviceCountry', label: 'Land (Leistung)' },
+  { value: 'month', label: 'Monat' },
+  { value: 'quarter', label: 'Quartal' },
+  { value: 'year', label: 'Jahr' },
+  { value: 'cancelled', label: 'Storniert' },
+];
+
+export const PIVOT_METRICS: { value: PivotMetric; label: string }[] = [
+  { value: 'revenue', label: 'Umsatz' },
+  { value: 'commission', label: 'Provision' },
+  { value: 'bookings', label: 'Buchungen' },
+  { value: 'persons', label: 'Personen' },
+  { value: 'nights', label: 'Nächte' },
+];
+
+export const PIVOT_AGGREGATIONS: { value: PivotAggregation; label: string }[] = [
+  { value: 'sum', label: 'Summe' },
+  { value: 'avg', label: 'Durchschnitt' },
+  { value: 'count', label: 'Anzahl' },
+  { value: 'share', label: 'Anteil am Gesamt' },
+];
+
+const EMPTY_VALUE = 'Unbekannt';
+const TOTAL_KEY = 'Gesamt';
+
+interface Accumulator {
+  sum: number;
+  count: number;
+  // Nur für eigene Kennzahlen gesammelt
+  bookings?: BookingData[];
+}
+
+interface PivotNode {
+  key: string;
+  children: Map<string, PivotNode>;
+  cells: Map<string, Accumulator>;
+  total: Accumulator;
+}
+
+/**
+ * Ausprägung einer Dimension; Monat, Quartal und Jahr folgen der gewählten Datumsbasis
+ */
+export const getDimensionValue = (booking: BookingData, dimension: PivotDimension, dateBasis: DateBasis): string => {
+  if (dimension === 'cancelled') return booking.cancelled ? 'Storniert' : 'Nicht storniert';
+  if (dimension === 'month' || dimension === 'quarter' || dimension === 'year') {
+    const date = getBasisDate(booking, dateBasis);
+    if (!date) return EMPTY_VALUE;
+    if (dimension === 'month') return format(date, 'yyyy-MM');
+    if (dimension === 'quarter') return `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    return String(date.getFullYear());
+  }
+  return booking[dimension] || EMPTY_VALUE;
+};
+
+/**
+ * Wert einer Kennzahl für eine Buchung; Umsatz, Provision, Personen und Nächte wie in den KPIs ohne Stornierungen
+ */
+export const getMetricValue = (booking: BookingData, metric: PivotMetric): number => {
+  switch (metric) {
+    case 'revenue':
+      return effectiveRevenue(booking);
+    case 'commission':
+      return effectiveCommission(booking);
+    case 'bookings':
+      return 1;
+    case 'persons':
+      return effectivePersons(booking);
+    case 'nights':
+      return booking.cancelled ? 0 : getNights(booking);
+  }
+};
+
+const createNode = (key: string): PivotNode => ({
+  key,
+  children: new Map(),
+  cells: new Map(),
+  total: { sum: 0, count: 0 },
+});
+
+const add = (accumulator: Accumulator, value: number, booking: BookingData | null) => {
+  accumulator.sum += value;
+  accumulator.count++;
+  if (booking) {
+    accumulator.bookings = accumulator.bookings ?? [];
+    accumulator.bookings.push(booking);
+  }
+};
+
+const addToCell = (node: PivotNode, columnKey: string, value: number, booking: BookingData | null) => {
+  let cell = node.cells.get(columnKey);
+  if (!cell) {
+    cell = { sum: 0, count: 0 };
+    node.cells.set(columnKey, cell);
+  }
+  add(cell, value, booking);
+  add(node.total, value, booking);
+};
+
+const finalize = (
+  accumulator: Accumulator | undefined,
+  aggregation: PivotAggregation,
+  grandSum: number,
+  formula: FormulaNode | null
+): number | null => {
+  if (!accumulator || accumulator.count === 0) return null;
+  if (formula) {
+    const value = evaluateFormula(formula, accumulator.bookings ?? []);
+    return Number.isFinite(value) ? value : null;
+  }
+  switch (aggregation) {
+    case 'sum':
+      return accumulator.sum;
+    case 'avg':
+      return accumulator.sum / accumulator.count;
+    case 'count':
+      return accumulator.count;
+    case 'share':
+      return safeDivide(accumulator.sum, grandSum);
+  }
+};
+
+const compareNodes = (sort: PivotSort, getTotal: (node: PivotNode) => number) => (a: PivotNode, b: PivotNode): number => {
+  if (sort === 'total-asc') return getTotal(a) - getTotal(b);
+  if (sort === 'total-desc') return getTotal(b) - getTotal(a);
+  const byLabel = a.key.localeCompare(b.key, 'de', { numeric: true });
+  return sort === 'label-desc' ? -byLabel : byLabel;
+};
+
+/**
+ * Berechnet eine Pivot-Tabelle mit Zwischensummen je Zeilenebene
+ */
+export const buildPivot = (bookings: BookingData[], config: PivotConfig, dateBasis: DateBasis): PivotResult => {
+  const root = createNode(TOTAL_KEY);
+  const columnKeySet = new Set<string>();
+  const parsedFormula = config.customMetric ? parseFormula(config.customMetric.formula) : null;
+  const formula = parsedFormula?.ok ? parsedFormula.node : null;
+  const collected = (booking: BookingData) => (formula ? booking : null);
+
+  bookings.forEach((booking) => {
+    const value = getMetricValue(booking, config.metric);
+    const columnKey = config.columns.length > 0
+      ? config.columns.map(dimension => getDimensionValue(booking, dimension, dateBasis)).join(' / ')
+      : TOTAL_KEY;
+    columnKeySet.add(columnKey);
+
+    // Jede Buchung zählt in allen Ebenen ihres Pfads, damit Zwischensummen ohne Nachrechnen entstehen
+    let node = root;
+    addToCell(node, columnKey, value, collected(booking));
+    config.rows.forEach((dimension) => {
+      const key = getDimensionValue(booking, dimension, dateBasis);
+      let child = node.children.get(key);
+      if (!child) {
+        child = createNode(key);
+        node.children.set(key, child);
+      }
+      node = child;
+      addToCell(node, columnKey, value, collected(booking));
+    });
+  });
+
+  const columnKeys = Array.from(columnKeySet).sort((a, b) => a.localeCompare(b, 'de', { numeric: true }));
+  const grandSum = root.total.sum;
+  const toRow = (node: PivotNode, keys: string[], isSubtotal: boolean): PivotRow => ({
+    keys,
+    level: keys.length,
+    isSubtotal,
+    values: columnKeys.map(columnKey => finalize(node.cells.get(columnKey), config.aggregation, grandSum, formula)),
+    total: finalize(node.total, config.aggregation, grandSum, formula) ?? 0,
+  });
+
+  // Eigene Kennzahlen nach ihrem Formelwert sortieren, sonst nach der Summe der Kennzahl
+  const getTotal = (node: PivotNode) => (formula ? finalize(node.total, config.aggregation, grandSum, formula) ?? 0 : node.total.sum);
+
+  const rows: PivotRow[] = [];
+  const visit = (node: PivotNode, keys: string[]) => {
+    const totals = new Map(Array.from(node.children.values()).map(child => [child, getTotal(child)]));
+    const children = Array.from(totals.keys()).sort(compareNodes(config.sort, child => totals.get(child) ?? 0));
+    children.forEach((child) => {
+      const childKeys = [...keys, child.key];
+      if (childKeys.length === config.rows.length) {
+        rows.push(toRow(child, childKeys, false));
+      } else {
+        visit(child, childKeys);
+        rows.push(toRow(child, childKeys, true));
+      }
+    });
+  };
+  visit(root, []);
+
+  return {
+    columnKeys,
+    rows,
+    columnTotals: columnKeys.map(columnKey => finalize(root.cells.get(columnKey), config.aggregation, grandSum, formula)),
+    grandTotal: finalize(root.total, config.aggregation, grandSum, formula) ?? 0,
+  };
+};
+
+/**
+ * Wandelt das Ergebnis in eine Tabelle aus Kopfzeile und Zeilen für CSV- und Excel-Exporte
+ */
+export const pivotToMatrix = (result: PivotResult, config: PivotConfig): (string | number)[][] => {
+  const rowLabels = config.rows.map(dimension => PIVOT_DIMENSIONS.find(option => option.value === dimension)?.label ?? dimension);
+  const header = [...rowLabels, ...(config.columns.length > 0 ? result.columnKeys : []), TOTAL_KEY];
+  const showColumns = config.columns.length > 0;
+
+  const body = result.rows.map(row => [
+    // Übergeordnete Schlüssel wiederholen, damit sich der Export in Excel filtern lässt
+    ...config.rows.map((_, index) => {
+      if (index >= row.keys.length) return '';
+      return row.isSubtotal && index === row.keys.length - 1 ? `${row.keys[index]} (Summe)` : row.keys[index];
+    }),
+    ...(showColumns ? row.values.map(value => value ?? '') : []),
+    row.total,
+  ]);
+
+  const totals = [
+    ...config.rows.map((_, index) => (index === 0 ? TOTAL_KEY : '')),
+    ...(showColumns ? result.columnTotals.map(value => value ?? '') : []),
+    result.grandTotal,
+  ];
+
+  return [header, ...body, totals];
+};
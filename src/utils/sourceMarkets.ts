@@ -0,0 +1,162 @@
+import { BookingData } from '../types/booking';
+import { calculateMetrics, effectivePersons, groupBookings, relativeChange, safeDivide } from './metrics';
+
+export type SourceMarketMetric = 'bookings' | 'revenue' | 'persons';
+
+export type DestinationDimension = 'region' | 'serviceCity';
+
+export type MarketTotals = Record<SourceMarketMetric, number>;
+
+export interface DestinationShare {
+  name: string;
+  value: number;
+  share: number;
+}
+
+export interface SourceMarket {
+  name: string;
+  current: MarketTotals;
+  previous?: MarketTotals;
+  // Veränderung der gewählten Kennzahl zum Vergleichszeitraum; null ohne Vergleichswert
+  change: number | null;
+  destinations: DestinationShare[];
+}
+
+export const SOURCE_MARKET_METRICS: { value: SourceMarketMetric; label: string }[] = [
+  { value: 'bookings', label: 'Buchungen' },
+  { value: 'revenue', label: 'Umsatz' },
+  { value: 'persons', label: 'Personen' },
+];
+
+export const DESTINATION_DIMENSIONS: { value: DestinationDimension; label: string }[] = [
+  { value: 'region', label: 'Region' },
+  { value: 'serviceCity', label: 'Stadt' },
+];
+
+export const GERMANY = 'Deutschland';
+
+const UNKNOWN = 'Unbekannt';
+
+// Häufige Schreibweisen in Exporten auf einen Ländernamen zusammenführen
+const COUNTRY_ALIASES: Record<string, string> = {
+  D: GERMANY,
+  DE: GERMANY,
+  DEU: GERMANY,
+  GER: GERMANY,
+  GERMANY: GERMANY,
+  DEUTSCHLAND: GERMANY,
+  A: 'Österreich',
+  AT: 'Österreich',
+  AUT: 'Österreich',
+  AUSTRIA: 'Österreich',
+  'ÖSTERREICH': 'Österreich',
+  CH: 'Schweiz',
+  CHE: 'Schweiz',
+  SWITZERLAND: 'Schweiz',
+  SCHWEIZ: 'Schweiz',
+  NL: 'Niederlande',
+  NLD: 'Niederlande',
+  NETHERLANDS: 'Niederlande',
+  NIEDERLANDE: 'Niederlande',
+  DK: 'Dänemark',
+  DNK: 'Dänemark',
+  DENMARK: 'Dänemark',
+  'DÄNEMARK': 'Dänemark',
+  PL: 'Polen',
+  POL: 'Polen',
+  POLAND: 'Polen',
+  POLEN: 'Polen',
+};
+
+/**
+ * Einheitlicher Ländername eines Gasts
+ */
+export const normalizeCountry = (country: string): string => {
+  const trimmed = country?.trim() ?? '';
+  if (!trimmed) return UNKNOWN;
+  return COUNTRY_ALIASES[trimmed.toUpperCase()] ?? trimmed;
+};
+
+/**
+ * Füllt vierstellige deutsche Postleitzahlen wieder auf fünf Stellen auf, z. B. wenn Excel sie als Zahl
+ * gespeichert und die führende Null entfernt hat; andere Länder bleiben unverändert
+ */
+export const normalizePostalCode = (postalCode: string, country: string): string => {
+  const trimmed = postalCode?.trim() ?? '';
+  return /^\d{4}$/.test(trimmed) && normalizeCountry(country) === GERMANY ? trimmed.padStart(5, '0') : trimmed;
+};
+
+/**
+ * Zweistelliges PLZ-Gebiet deutscher Gäste; null bei ausländischen Gästen oder fehlender PLZ.
+ * Funktioniert auch mit auf zwei Stellen gekürzten Postleitzahlen der Anonymisierung.
+ */
+export const getPostalArea = (booking: BookingData): string | null => {
+  if (normalizeCountry(booking.country) !== GERMANY) return null;
+  const match = /^\d{2}/.exec(normalizePostalCode(booking.postalCode, booking.country));
+  return match ? match[0] : null;
+};
+
+/**
+ * Buchungen, Umsatz und Personen ohne Stornierungen
+ */
+export const sumMarketTotals = (bookings: BookingData[]): MarketTotals => {
+  const { activeBookings, revenue } = calculateMetrics(bookings);
+  return {
+    bookings: activeBookings,
+    revenue,
+    persons: bookings.reduce((sum, booking) => sum + effectivePersons(booking), 0),
+  };
+};
+
+/**
+ * Herkunftsmärkte nach der gewählten Kennzahl mit Vorjahresveränderung und bevorzugten Zielen.
+ * Stornierte Buchungen zählen nicht; Buchungen ohne Markt (getMarket liefert null) werden übergangen.
+ */
+export const analyzeSourceMarkets = (
+  bookings: BookingData[],
+  comparisonBookings: BookingData[] | undefined,
+  getMarket: (booking: BookingData) => string | null,
+  metric: SourceMarketMetric,
+  dimension: DestinationDimension,
+  maxDestinations = 3
+): SourceMarket[] => {
+  const getKey = (booking: BookingData) => getMarket(booking) ?? '';
+  const groups = groupBookings(bookings, getKey);
+  const comparisonGroups = comparisonBookings ? groupBookings(comparisonBookings, getKey) : undefined;
+  groups.delete('');
+
+  const markets: SourceMarket[] = [];
+  groups.forEach((group, name) => {
+    const current = sumMarketTotals(group);
+    if (current.bookings === 0) return;
+    const comparisonGroup = comparisonGroups?.get(name);
+    const previous = comparisonGroups ? sumMarketTotals(comparisonGroup ?? []) : undefined;
+
+    const destinations = Array.from(
+      groupBookings(group, booking => booking[dimension] || UNKNOWN),
+      ([destination, destinationBookings]) => ({ name: destination, value: sumMarketTotals(destinationBookings)[metric] })
+    )
+      .filter(destination => destination.value > 0)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, maxDestinations)
+      .map(destination => ({ ...destination, share: safeDivide(destination.value, current[metric]) }));
+
+    markets.push({
+      name,
+      current,
+      previous,
+      change: previous ? relativeChange(current[metric], previous[metric]) : null,
+      destinations,
+    });
+  });
+
+  return markets.sort((a, b) => b.current[metric] - a.current[metric]);
+};
+
+/**
+ * Anteil der nicht stornierten Buchungen, die einem Markt zugeordnet werden konnten
+ */
+export const getMarketCoverage = (bookings: BookingData[], getMarket: (booking: BookingData) => string | null): number => {
+  const active = bookings.filter(booking => !booking.cancelled);
+  return safeDivide(active.filter(booking => getMarket(booking) !== null).length, active.length);
+};
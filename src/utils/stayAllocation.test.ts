@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { createBooking } from '../test/fixtures';
+import { aggregateStayNights, getStayNights } from './stayAllocation';
+
+// Aufenthalt vom 28. März bis 5. April: vier Nächte im März, vier im April
+const stay = createBooking({
+  arrivalDate: new Date(2024, 2, 28),
+  departureDate: new Date(2024, 3, 5),
+  totalPrice: 800,
+  commission: 80,
+  persons: 0,
+  adults: 2,
+  children: 1,
+});
+
+describe('getStayNights', () => {
+  it('verteilt Umsatz und Provision gleichmäßig auf die Nächte', () => {
+    const nights = getStayNights(stay);
+    expect(nights).toHaveLength(8);
+    expect(nights[0]).toMatchObject({ revenue: 100, commission: 10, roomNights: 1, guestNights: 3 });
+  });
+
+  it('zählt stornierte Aufenthalte mit 0', () => {
+    const nights = getStayNights({ ...stay, cancelled: true });
+    expect(nights.every(night => night.revenue === 0 && night.roomNights === 0 && night.guestNights === 0)).toBe(true);
+  });
+});
+
+describe('aggregateStayNights', () => {
+  it('teilt einen monatsübergreifenden Aufenthalt anteilig auf beide Monate auf', () => {
+    const byMonth = aggregateStayNights([stay], date => format(date, 'MM'));
+    expect(byMonth.get('03')).toEqual({ revenue: 400, commission: 40, roomNights: 4, guestNights: 12, bookings: 1 });
+    expect(byMonth.get('04')).toEqual({ revenue: 400, commission: 40, roomNights: 4, guestNights: 12, bookings: 1 });
+  });
+});
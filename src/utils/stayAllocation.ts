@@ -0,0 +1,106 @@
+import { addDays, format } from 'date-fns';
+import { BookingData } from '../types/booking';
+import { effectiveCommission, effectivePersons, effectiveRevenue, getNights } from './metrics';
+
+/**
+ * Zuordnung von Umsatz und Provision: komplett zum Datum der Datumsbasis oder anteilig auf die Aufenthaltsnächte.
+ * Die anteilige Zuordnung wertet nur der Monatsvergleich im Jahresvergleich aus.
+ */
+export type RevenueAllocation = 'basis' | 'stay';
+
+export interface StayNight {
+  date: Date;
+  booking: BookingData;
+  revenue: number;
+  commission: number;
+  roomNights: number;
+  guestNights: number;
+}
+
+export interface StayTotals {
+  revenue: number;
+  commission: number;
+  roomNights: number;
+  guestNights: number;
+  bookings: number;
+}
+
+/**
+ * Zerlegt eine Buchung in ihre Aufenthaltsnächte mit anteiligem Umsatz und anteiliger Provision.
+ * Buchungen ohne Übernachtung bleiben vollständig am Anreisetag, stornierte Buchungen zählen mit 0.
+ */
+export const getStayNights = (booking: BookingData): StayNight[] => {
+  const nights = getNights(booking);
+  const revenue = effectiveRevenue(booking);
+  const commission = effectiveCommission(booking);
+  const guests = effectivePersons(booking);
+
+  if (nights === 0) {
+    return [{ date: booking.arrivalDate, booking, revenue, commission, roomNights: 0, guestNights: 0 }];
+  }
+
+  return Array.from({ length: nights }, (_, index) => ({
+    date: addDays(booking.arrivalDate, index),
+    booking,
+    revenue: revenue / nights,
+    commission: commission / nights,
+    roomNights: booking.cancelled ? 0 : 1,
+    guestNights: guests,
+  }));
+};
+
+/**
+ * Summiert die Aufenthaltsnächte je Zeitraum; getKey liefert null für Nächte außerhalb der Auswertung
+ */
+export const aggregateStayNights = (
+  bookings: BookingData[],
+  getKey: (date: Date) => string | null
+): Map<string, StayTotals> => {
+  const totals = new Map<string, StayTotals>();
+  const counted = new Map<string, Set<BookingData>>();
+
+  bookings.forEach((booking) => {
+    getStayNights(booking).forEach((night) => {
+      const key = getKey(night.date);
+      if (key === null) return;
+
+      let entry = totals.get(key);
+      if (!entry) {
+        entry = { revenue: 0, commission: 0, roomNights: 0, guestNights: 0, bookings: 0 };
+        totals.set(key, entry);
+        counted.set(key, new Set());
+      }
+      entry.revenue += night.revenue;
+      entry.commission += night.commission;
+      entry.roomNights += night.roomNights;
+      entry.guestNights += night.guestNights;
+
+      // Jede Buchung zählt pro Zeitraum nur einmal
+      const seen = counted.get(key)!;
+      if (!seen.has(booking)) {
+        seen.add(booking);
+        entry.bookings++;
+      }
+    });
+  });
+
+  return totals;
+};
+
+/**
+ * Belegte Nächte je Kalendertag (yyyy-MM-dd), nur nicht stornierte Buchungen
+ */
+export const getOccupancyByDay = (bookings: BookingData[]): Map<string, StayTotals> => {
+  return aggregateStayNights(
+    bookings.filter(booking => !booking.cancelled && getNights(booking) > 0),
+    date => format(date, 'yyyy-MM-dd')
+  );
+};
+
+/**
+ * Prüft, ob sich ein Aufenthalt mit einem Zeitraum überschneidet (Abreisetag zählt nicht als Nacht)
+ */
+export const overlapsStay = (booking: BookingData, start: Date, end: Date): boolean => {
+  const lastNight = getNights(booking) > 0 ? addDays(booking.departureDate, -1) : booking.arrivalDate;
+  return booking.arrivalDate <= end && lastNight >= start;
+};
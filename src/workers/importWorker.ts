@@ -0,0 +1,58 @@
+import Papa from 'papaparse';
+import { BookingData } from '../types/booking';
+import { ImportIssue, ImportWorkerRequest, ImportWorkerResponse, RawRow } from '../types/import';
+import { validateRows } from '../utils/bookingSchema';
+import { toReaderEncoding } from '../utils/csvSniffer';
+
+// Etwa 1 MB pro Abschnitt: häufige Fortschrittsmeldungen bei geringem Overhead
+const CHUNK_SIZE = 1024 * 1024;
+
+const workerScope = self as unknown as Worker;
+
+const post = (message: ImportWorkerResponse) => {
+  workerScope.postMessage(message);
+};
+
+workerScope.addEventListener('message', (event: MessageEvent<ImportWorkerRequest>) => {
+  const { file, mapping, format } = event.data;
+
+  const bookings: BookingData[] = [];
+  const issues: ImportIssue[] = [];
+  let processedRows = 0;
+  let rowCount = 0;
+  let invalidRowCount = 0;
+  let bytesRead = 0;
+
+  Papa.parse<RawRow>(file, {
+    header: true,
+    delimiter: format.delimiter,
+    encoding: toReaderEncoding(format.encoding),
+    skipEmptyLines: false,
+    transformHeader: (header: string) => header.trim(),
+    chunkSize: CHUNK_SIZE,
+    chunk: (results) => {
+      // Papa liest die Datei in Abschnitten von CHUNK_SIZE Bytes; meta.cursor zählt dagegen dekodierte Zeichen
+      bytesRead = Math.min(bytesRead + CHUNK_SIZE, file.size);
+      // Zeilennummern über alle Abschnitte fortlaufend, wie beim Import in einem Durchgang
+      const result = validateRows(results.data, mapping, 2 + processedRows, format);
+      processedRows += results.data.length;
+      rowCount += result.rowCount;
+      invalidRowCount += result.invalidRowCount;
+      result.bookings.forEach(booking => bookings.push(booking));
+      result.issues.forEach(issue => issues.push(issue));
+
+      post({
+        type: 'progress',
+        rows: rowCount,
+        bytes: bytesRead,
+        totalBytes: file.size,
+      });
+    },
+    complete: () => {
+      post({ type: 'complete', bookings, issues, rowCount, invalidRowCount });
+    },
+    error: (error) => {
+      post({ type: 'error', message: error.message });
+    },
+  });
+});